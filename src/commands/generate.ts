@@ -7,6 +7,8 @@ import * as CLIConfig from '@oclif/config'
 import { Generator } from '../generator'
 import { Config } from '../config'
 import { ModuleLoader } from '../module-loader'
+import { GirCache } from '../gir-cache'
+import { Diagnostics } from '../diagnostics'
 import { ConfigFlags } from '../types'
 
 export default class Generate extends Command {
@@ -30,6 +32,15 @@ export default class Generate extends Command {
         '# Generate .d.ts. files only for node',
         `${Config.appName} generate '*' -e node`,
         '',
+        "# Generate ambient 'gi://' ES modules for gjs",
+        `${Config.appName} generate '*' -e gjs --moduleType esm`,
+        '',
+        "# Generate one npm package per GIR module, e.g. '@types/@girs/gtk-4.0'",
+        `${Config.appName} generate '*' -e gjs --package`,
+        '',
+        "# Generate a 'tsconfig.ts-for-gir.json' your tsconfig.json can extend",
+        `${Config.appName} generate '*' -e gjs --tsconfig`,
+        '',
         '# Use a special config file',
         `${Config.appName} generate --configName='.ts-for-gir.gtk4.rc.js`,
         '',
@@ -38,21 +49,71 @@ export default class Generate extends Command {
         '',
         "# Represent GObject's inheritance model in classes and interfaces (experimental)",
         `${Config.appName} generate '*' --inheritance`,
+        '',
+        '# Do not generate documentation comments',
+        `${Config.appName} generate '*' --noComments`,
+        '',
+        '# Generate promise overloads for async functions like Gio.File.read_async',
+        `${Config.appName} generate '*' --promisify`,
+        '',
+        '# Also generate the camelCase properties for gjs (or snake_case for node), marked as deprecated',
+        `${Config.appName} generate '*' --propertyAliases deprecated`,
+        '',
+        "# Generate 'unknown' instead of 'any' for untyped return values, properties and callback arguments",
+        `${Config.appName} generate '*' --unknownOverAny`,
+        '',
+        "# Generate branded number types like 'GLib.guint32' for the integer types",
+        `${Config.appName} generate '*' --brandedIntegers`,
+        '',
+        '# Parse all GIR files again instead of using the cache',
+        `${Config.appName} generate '*' --no-cache`,
+        '',
+        '# Generate all modules, also the ones that have not changed since the last run',
+        `${Config.appName} generate '*' --force`,
+        '',
+        '# Use Gtk-3.0 if multiple versions of Gtk are found and fail instead of asking for other conflicts, e.g. in CI',
+        `${Config.appName} generate '*' --preferVersion Gtk=3.0 --nonInteractive`,
+        '',
+        "# Fix the annotations of the GIR files with the Vala '.metadata' files in ./vala-metadata",
+        `${Config.appName} generate '*' --metadataDirectories ./vala-metadata`,
+        '',
+        '# Write the diagnostics like unresolved types to a SARIF file, e.g. for code scanning in CI',
+        `${Config.appName} generate '*' --report ts-for-gir.sarif`,
+        '',
+        '# Fail if a type is unresolved or generated as any, except for the cairo types',
+        `${Config.appName} generate '*' --strict --allowUnresolved 'cairo.*'`,
     ]
 
     static flags = {
         help: Config.defaultCliFlags.help,
         girDirectories: Config.defaultCliFlags.girDirectories,
+        metadataDirectories: Config.defaultCliFlags.metadataDirectories,
         outdir: Config.defaultCliFlags.outdir,
         environments: Config.defaultCliFlags.environments,
         ignore: Config.defaultCliFlags.ignore,
         buildType: Config.defaultCliFlags.buildType,
+        moduleType: Config.defaultCliFlags.moduleType,
         pretty: Config.defaultCliFlags.pretty,
+        package: Config.defaultCliFlags.package,
+        tsconfig: Config.defaultCliFlags.tsconfig,
         verbose: Config.defaultCliFlags.verbose,
         ignoreConflicts: Config.defaultCliFlags.ignoreConflicts,
+        nonInteractive: Config.defaultCliFlags.nonInteractive,
+        preferVersion: Config.defaultCliFlags.preferVersion,
         inheritance: Config.defaultCliFlags.inheritance,
+        noComments: Config.defaultCliFlags.noComments,
+        promisify: Config.defaultCliFlags.promisify,
+        propertyAliases: Config.defaultCliFlags.propertyAliases,
+        unknownOverAny: Config.defaultCliFlags.unknownOverAny,
+        brandedIntegers: Config.defaultCliFlags.brandedIntegers,
+        cache: Config.defaultCliFlags.cache,
+        clearCache: Config.defaultCliFlags.clearCache,
+        force: Config.defaultCliFlags.force,
         print: Config.defaultCliFlags.print,
         configName: Config.defaultCliFlags.configName,
+        report: Config.defaultCliFlags.report,
+        strict: Config.defaultCliFlags.strict,
+        allowUnresolved: Config.defaultCliFlags.allowUnresolved,
     }
 
     static args = [Config.defaultCliArgs.modules]
@@ -66,25 +127,56 @@ export default class Generate extends Command {
 
         const config = await Config.load((flags as unknown) as ConfigFlags, argv)
 
+        if (flags.clearCache) {
+            await GirCache.clear()
+        }
+
         if (argv.length === 0) {
             this.error("Need to pass an argument via 'ts-for-gjs generate [arguments here]'!")
         }
 
+        const diagnostics = new Diagnostics()
+
         for (const i in config.environments) {
             if (config.environments[i]) {
                 const generateConfig = Config.getGenerateConfig(config, config.environments[i])
+                // Unchanged modules are skipped and would be missing in the report and the strict check
+                if (config.report || config.strict) generateConfig.force = true
                 const moduleLoader = new ModuleLoader(generateConfig)
-                const { keep } = await moduleLoader.getModulesResolved(
-                    config.modules,
-                    config.ignore || [],
-                    config.ignoreConflicts,
-                )
+                const { keep } = await moduleLoader
+                    .getModulesResolved(
+                        config.modules,
+                        config.ignore || [],
+                        config.ignoreConflicts,
+                        config.versions,
+                        config.nonInteractive,
+                    )
+                    .catch((error: Error) => this.error(error.message))
                 if (keep.length === 0) {
                     this.error('No module found!')
                 }
-                const tsForGir = new Generator(generateConfig)
+                const tsForGir = new Generator(generateConfig, diagnostics)
                 tsForGir.start(Array.from(keep).map((girModuleResolvedBy) => girModuleResolvedBy.module))
             }
         }
+
+        if (diagnostics.list.length) {
+            this.log(`\n${diagnostics.getSummary().join('\n')}`)
+        }
+        if (config.report) {
+            diagnostics.write(config.report)
+            this.log(`Diagnostics written to ${config.report}`)
+        }
+        if (config.strict) {
+            const failures = diagnostics.getStrictFailures(config.allowUnresolved)
+            if (failures.length) {
+                for (const failure of failures) {
+                    this.log(`${failure.code} [${failure.environment}][${failure.module}] ${failure.message}`)
+                }
+                this.error(
+                    `Found ${failures.length} unresolved types or variables without a type, allow them with '--allowUnresolved' if they are expected`,
+                )
+            }
+        }
     }
 }
@@ -3,6 +3,7 @@
  */
 
 import { ModuleLoader } from '../module-loader'
+import { GirCache } from '../gir-cache'
 import { Command } from '@oclif/command'
 import chalk from 'chalk'
 import { Config } from '../config'
@@ -25,6 +26,8 @@ export default class List extends Command {
         ignore: Config.defaultCliFlags.ignore,
         configName: Config.defaultCliFlags.configName,
         verbose: Config.defaultCliFlags.verbose,
+        cache: Config.defaultCliFlags.cache,
+        clearCache: Config.defaultCliFlags.clearCache,
     }
 
     static args = [Config.defaultCliArgs.modules]
@@ -32,6 +35,9 @@ export default class List extends Command {
     async run(): Promise<void> {
         const { argv, flags } = this.parse(List)
         const config = await Config.load((flags as unknown) as ConfigFlags, argv)
+        if (flags.clearCache) {
+            await GirCache.clear()
+        }
         const generateConfig = Config.getGenerateConfig(config)
         const moduleLoader = new ModuleLoader(generateConfig)
         const { grouped, failed } = await moduleLoader.getModules(config.modules, config.ignore)
@@ -0,0 +1,233 @@
+/**
+ * Everything you need for the `ts-for-gir watch` command is located here
+ */
+
+import { Command } from '@oclif/command'
+import * as CLIConfig from '@oclif/config'
+import fs from 'fs'
+import Path from 'path'
+import { Generator } from '../generator'
+import { Config } from '../config'
+import { ModuleLoader } from '../module-loader'
+import { TemplateProcessor } from '../template-processor'
+import { GirCache } from '../gir-cache'
+import { Utils } from '../utils'
+import { ConfigFlags, UserConfig, WatchTarget } from '../types'
+
+/**
+ * Changes are collected for this time before the modules are generated again, e.g. `g-ir-scanner` writes multiple files
+ */
+const WATCH_DELAY = 500
+
+export default class Watch extends Command {
+    static description =
+        'Generates .d.ts files and generates them again if the GIR files, the config, the templates or the patches change'
+
+    static strict = false
+
+    static examples = [
+        '# Generate the .d.ts files for Gtk-3.0 and regenerate them when a GIR file changes',
+        `${Config.appName} watch Gtk-3.0`,
+        '',
+        '# Watch your own GIR directory in addition to the system one',
+        `${Config.appName} watch MyLib-1.0 -g ./build -g /usr/share/gir-1.0`,
+    ]
+
+    static flags = {
+        help: Config.defaultCliFlags.help,
+        girDirectories: Config.defaultCliFlags.girDirectories,
+        metadataDirectories: Config.defaultCliFlags.metadataDirectories,
+        outdir: Config.defaultCliFlags.outdir,
+        environments: Config.defaultCliFlags.environments,
+        ignore: Config.defaultCliFlags.ignore,
+        buildType: Config.defaultCliFlags.buildType,
+        moduleType: Config.defaultCliFlags.moduleType,
+        pretty: Config.defaultCliFlags.pretty,
+        package: Config.defaultCliFlags.package,
+        tsconfig: Config.defaultCliFlags.tsconfig,
+        verbose: Config.defaultCliFlags.verbose,
+        ignoreConflicts: Config.defaultCliFlags.ignoreConflicts,
+        nonInteractive: Config.defaultCliFlags.nonInteractive,
+        preferVersion: Config.defaultCliFlags.preferVersion,
+        inheritance: Config.defaultCliFlags.inheritance,
+        noComments: Config.defaultCliFlags.noComments,
+        promisify: Config.defaultCliFlags.promisify,
+        propertyAliases: Config.defaultCliFlags.propertyAliases,
+        unknownOverAny: Config.defaultCliFlags.unknownOverAny,
+        brandedIntegers: Config.defaultCliFlags.brandedIntegers,
+        cache: Config.defaultCliFlags.cache,
+        clearCache: Config.defaultCliFlags.clearCache,
+        force: Config.defaultCliFlags.force,
+        configName: Config.defaultCliFlags.configName,
+    }
+
+    static args = [Config.defaultCliArgs.modules]
+
+    private cliFlags: ConfigFlags | null = null
+
+    private cliArgv: string[] = []
+
+    /**
+     * The generated modules of each environment and the module loader which knows their dependencies
+     */
+    private generated: { [environment: string]: { packageNames: string[]; moduleLoader: ModuleLoader } } = {}
+
+    private watchers: fs.FSWatcher[] = []
+
+    private changedGirFiles = new Set<string>()
+
+    private configChanged = false
+
+    private templatesChanged = false
+
+    private patchesChanged = false
+
+    private schedule = Utils.debounce(() => this.onChange().catch((error) => this.warn(error)), WATCH_DELAY)
+
+    constructor(argv: string[], config: CLIConfig.IConfig) {
+        super(argv, config)
+    }
+
+    async run(): Promise<void> {
+        const { argv, flags } = this.parse(Watch)
+        this.cliFlags = (flags as unknown) as ConfigFlags
+        this.cliArgv = argv
+
+        if (argv.length === 0) {
+            this.error("Need to pass an argument via 'ts-for-gjs watch [arguments here]'!")
+        }
+
+        const config = await Config.load(this.cliFlags, this.cliArgv)
+
+        if (flags.clearCache) {
+            await GirCache.clear()
+        }
+
+        await this.generate(config)
+        this.watch(config)
+    }
+
+    /**
+     * Generates the modules of all environments, after the first run only the environments with affected modules
+     * @param config
+     * @param changedPackageNames Modules of the changed GIR files
+     * @param force Generate all modules, e.g. after the templates have changed
+     */
+    private async generate(config: UserConfig, changedPackageNames: string[] = [], force = false): Promise<void> {
+        for (const environment of config.environments) {
+            const generateConfig = Config.getGenerateConfig(config, environment)
+            const last = this.generated[environment]
+            let modules = config.modules
+
+            if (last) {
+                // The conflicts were already resolved on the first run
+                modules = last.packageNames
+                const affected = last.moduleLoader
+                    .getDependentModules(changedPackageNames)
+                    .filter((packageName) => last.packageNames.includes(packageName))
+                if (!force && affected.length === 0) continue
+                if (!force) this.log(`Generate ${affected.join(', ')} for ${environment} again...`)
+                generateConfig.force = force
+            }
+
+            const moduleLoader = new ModuleLoader(generateConfig)
+            const { keep } = await moduleLoader
+                .getModulesResolved(
+                    modules,
+                    config.ignore || [],
+                    !!last || config.ignoreConflicts,
+                    config.versions,
+                    config.nonInteractive,
+                )
+                .catch((error: Error) => this.error(error.message))
+            if (keep.length === 0) {
+                this.warn(`No module found for ${environment}!`)
+                continue
+            }
+            this.generated[environment] = {
+                packageNames: keep.map((girModuleResolvedBy) => girModuleResolvedBy.packageName),
+                moduleLoader,
+            }
+            const tsForGir = new Generator(generateConfig)
+            tsForGir.start(keep.map((girModuleResolvedBy) => girModuleResolvedBy.module))
+        }
+    }
+
+    /**
+     * Returns the watched directories, including their subdirectories and the directories of the patch files of the config
+     * @param config
+     */
+    public static getWatchTargets(config: UserConfig): WatchTarget[] {
+        const targets: WatchTarget[] = []
+        const add = (dirs: string[], target: Omit<WatchTarget, 'dir'>) => {
+            for (const dir of dirs) {
+                for (const subDir of Utils.getDirsRecursive(dir)) targets.push({ dir: subDir, ...target })
+            }
+        }
+
+        add(config.girDirectories, { change: 'gir', extname: '.gir' })
+        add(config.metadataDirectories, { change: 'gir', extname: '.metadata' })
+        targets.push({
+            dir: Path.dirname(Config.configFilePath),
+            change: 'config',
+            filename: Path.basename(Config.configFilePath),
+        })
+        // Includes the patches shipped with ts-for-gir in `templates/patches`
+        add([TemplateProcessor.getTemplateDir()], { change: 'templates' })
+        for (const patch of config.patches || []) {
+            if (typeof patch !== 'string') continue
+            const fullPath = Path.resolve(patch)
+            targets.push({ dir: Path.dirname(fullPath), change: 'patches', filename: Path.basename(fullPath) })
+        }
+        return targets
+    }
+
+    private watch(config: UserConfig): void {
+        for (const watcher of this.watchers) watcher.close()
+        this.watchers = []
+
+        for (const target of Watch.getWatchTargets(config)) this.watchDir(target)
+
+        this.log(`Watching for changes in ${config.girDirectories.join(', ')}...`)
+    }
+
+    private watchDir(target: WatchTarget): void {
+        if (!fs.existsSync(target.dir)) return
+        const watcher = fs.watch(target.dir, (eventType, filename) => {
+            if (!filename) return
+            filename = filename.toString()
+            if (target.extname && Path.extname(filename) !== target.extname) return
+            if (target.filename && filename !== target.filename) return
+
+            if (target.change === 'gir') this.changedGirFiles.add(filename)
+            else if (target.change === 'config') this.configChanged = true
+            else if (target.change === 'templates') this.templatesChanged = true
+            else this.patchesChanged = true
+            this.schedule()
+        })
+        this.watchers.push(watcher)
+    }
+
+    private async onChange(): Promise<void> {
+        const changedPackageNames = Array.from(this.changedGirFiles).map((filename) =>
+            Path.basename(filename, Path.extname(filename)),
+        )
+        const { configChanged, templatesChanged, patchesChanged } = this
+        this.changedGirFiles.clear()
+        this.configChanged = false
+        this.templatesChanged = false
+        this.patchesChanged = false
+
+        const config = await Config.load(this.cliFlags as ConfigFlags, this.cliArgv)
+        if (configChanged) {
+            this.log('The config has changed, generate all modules again...')
+            this.generated = {}
+            this.watch(config)
+        } else if (templatesChanged) {
+            this.log('The templates have changed, generate all modules again...')
+        } else if (patchesChanged) {
+            this.log('The patches have changed, generate all modules again...')
+        }
+        await this.generate(config, changedPackageNames, templatesChanged || patchesChanged)
+    }
+}
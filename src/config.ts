@@ -7,13 +7,36 @@ import { cosmiconfig, Options as ConfigSearchOptions } from 'cosmiconfig'
 import Path from 'path'
 import OS from 'os'
 import { Utils } from './utils'
-import { Environment, BuildType, UserConfig, ConfigFlags, UserConfigLoadResult, GenerateConfig } from './types'
-import { promises as fs } from 'fs'
+import {
+    Environment,
+    BuildType,
+    ModuleType,
+    UserConfig,
+    ConfigFlags,
+    UserConfigLoadResult,
+    GenerateConfig,
+    ModuleVersions,
+    PropertyAliases,
+} from './types'
+import { promises as fs, readFileSync } from 'fs'
 import { Logger } from './logger'
 
 export class Config {
     static appName = 'ts-for-gir'
 
+    private static _appVersion: string | null = null
+
+    /**
+     * Version of ts-for-gir from package.json, read on first access
+     */
+    static get appVersion(): string {
+        if (!Config._appVersion) {
+            const packageJsonPath = Path.join(Utils.getPackageDir(), 'package.json')
+            Config._appVersion = JSON.parse(readFileSync(packageJsonPath, 'utf8')).version
+        }
+        return Config._appVersion as string
+    }
+
     static configFilePath = Path.join(process.cwd(), '.ts-for-girrc.js')
 
     /**
@@ -22,14 +45,30 @@ export class Config {
     static defaults = {
         environments: ['gjs', 'node'],
         pretty: false,
+        package: false,
+        tsconfig: false,
         print: false,
+        moduleType: 'commonjs',
         outdir: '@types',
         girDirectories: [OS.platform() === 'darwin' ? '/usr/local/share/gir-1.0' : '/usr/share/gir-1.0'],
+        metadataDirectories: [],
         modules: ['*'],
         ignore: [],
         verbose: true,
         ignoreConflicts: false,
+        nonInteractive: false,
+        preferVersion: [],
         inheritance: false,
+        noComments: false,
+        promisify: false,
+        propertyAliases: 'none',
+        unknownOverAny: false,
+        brandedIntegers: false,
+        cache: true,
+        clearCache: false,
+        force: false,
+        strict: false,
+        allowUnresolved: [],
     }
 
     /**
@@ -43,6 +82,11 @@ export class Config {
             multiple: true,
             default: Config.defaults.girDirectories,
         }),
+        metadataDirectories: flags.string({
+            description: "Directories with Vala '.metadata' files to fix the annotations of the GIR files",
+            multiple: true,
+            default: Config.defaults.metadataDirectories,
+        }),
         outdir: flags.string({
             char: 'o',
             description: 'directory to output to',
@@ -67,10 +111,26 @@ export class Config {
             multiple: false,
             options: ['lib', 'types'],
         }),
+        moduleType: flags.string({
+            char: 'm',
+            description:
+                "[esm only for gjs] Generate ambient 'gi://' ES modules (with the 'types' build type) or CommonJS modules",
+            options: ['esm', 'commonjs'],
+            default: Config.defaults.moduleType,
+        }),
         pretty: flags.boolean({
             description: 'prettifies the generated .d.ts files',
             default: Config.defaults.pretty,
         }),
+        package: flags.boolean({
+            description: "Generate one npm package per GIR module in '<outdir>/@girs'",
+            default: Config.defaults.package,
+        }),
+        tsconfig: flags.boolean({
+            description:
+                "Generate a 'tsconfig.ts-for-gir.json' for each environment which your tsconfig.json can extend",
+            default: Config.defaults.tsconfig,
+        }),
         verbose: flags.boolean({
             char: 'v',
             description: 'Switch on/off the verbose mode',
@@ -80,10 +140,56 @@ export class Config {
             description: 'Do not ask for package versions if multiple versions are found',
             default: Config.defaults.ignoreConflicts,
         }),
+        nonInteractive: flags.boolean({
+            description: 'Fail with a report of all conflicts instead of asking for package versions',
+            default: Config.defaults.nonInteractive,
+        }),
+        preferVersion: flags.string({
+            description: "Version to use if multiple versions of a module are found, e.g. 'Gtk=3.0'",
+            multiple: true,
+            default: Config.defaults.preferVersion,
+        }),
         inheritance: flags.boolean({
             description: 'Represent inheritance relationships in output (experimental)',
             default: Config.defaults.inheritance,
         }),
+        noComments: flags.boolean({
+            description: 'Do not generate documentation comments',
+            default: Config.defaults.noComments,
+        }),
+        promisify: flags.boolean({
+            description: 'Generate promise overloads for async functions with a matching finish function',
+            default: Config.defaults.promisify,
+        }),
+        propertyAliases: flags.string({
+            description:
+                'Also generate the properties in the naming convention of the other environment, marked as alias or deprecated',
+            options: ['none', 'alias', 'deprecated'],
+            default: Config.defaults.propertyAliases,
+        }),
+        unknownOverAny: flags.boolean({
+            description:
+                "Generate 'unknown' instead of 'any' for untyped values passed to your code, e.g. return values",
+            default: Config.defaults.unknownOverAny,
+        }),
+        brandedIntegers: flags.boolean({
+            description:
+                "Generate branded number types like 'GLib.guint32' for the integer types, 64-bit integers are 'number | bigint' for node",
+            default: Config.defaults.brandedIntegers,
+        }),
+        cache: flags.boolean({
+            description: `Cache the parsed GIR files in 'node_modules/.cache/${Config.appName}'`,
+            default: Config.defaults.cache,
+            allowNo: true,
+        }),
+        clearCache: flags.boolean({
+            description: 'Clear the cache of parsed GIR files before loading them',
+            default: Config.defaults.clearCache,
+        }),
+        force: flags.boolean({
+            description: 'Generate all modules, also the ones that have not changed since the last run',
+            default: Config.defaults.force,
+        }),
         print: flags.boolean({
             char: 'p',
             description: 'print the output to console and create no files',
@@ -92,6 +198,19 @@ export class Config {
         configName: flags.string({
             description: 'name of the config if you want to use a different name',
         }),
+        strict: flags.boolean({
+            description: 'Exit with an error if a type is unresolved or a variable has no type',
+            default: Config.defaults.strict,
+        }),
+        allowUnresolved: flags.string({
+            description: "[strict only] Symbols or types which may be unresolved, e.g. 'Gtk.Widget.*' or 'cairo.*'",
+            multiple: true,
+            default: Config.defaults.allowUnresolved,
+        }),
+        report: flags.string({
+            description:
+                "Write the diagnostics like unresolved types to a JSON file, or a SARIF file if it ends with '.sarif'",
+        }),
     }
 
     /**
@@ -150,16 +269,47 @@ export class Config {
         return userConfig
     }
 
+    /**
+     * Parses the versions passed with `--preferVersion`, e.g. `['Gtk=3.0', 'Soup=2.4']`
+     * @param preferVersion
+     */
+    private static parseVersions(preferVersion: string[] = []): ModuleVersions {
+        const versions: ModuleVersions = {}
+        for (const nameVersion of preferVersion) {
+            const [name, version] = nameVersion.split('=')
+            if (!name || !version) {
+                throw new Error(`Invalid version '${nameVersion}', use the format 'Name=Version', e.g. 'Gtk=3.0'`)
+            }
+            versions[name] = version
+        }
+        return versions
+    }
+
     public static getGenerateConfig(config: UserConfig, environment: Environment = 'gjs'): GenerateConfig {
-        const defaultBuildType = environment === 'gjs' ? 'lib' : 'types'
+        // ES modules are declared as ambient modules, which can only use the global namespaces of the 'types' build type
+        const moduleType = environment === 'gjs' ? config.moduleType : 'commonjs'
+        const defaultBuildType = environment === 'gjs' && moduleType === 'commonjs' ? 'lib' : 'types'
         const generateConfig: GenerateConfig = {
             environment: environment,
             girDirectories: config.girDirectories,
+            metadataDirectories: config.metadataDirectories,
             outdir: config.outdir,
             pretty: config.pretty,
+            package: config.package,
+            tsconfig: config.tsconfig,
             verbose: config.verbose,
-            buildType: config.buildType || defaultBuildType,
+            buildType: moduleType === 'esm' ? 'types' : config.buildType || defaultBuildType,
+            moduleType,
             inheritance: config.inheritance,
+            noComments: config.noComments,
+            promisify: config.promisify,
+            propertyAliases: config.propertyAliases,
+            unknownOverAny: config.unknownOverAny,
+            brandedIntegers: config.brandedIntegers,
+            transformations: config.transformations,
+            patches: config.patches,
+            cache: config.cache,
+            force: config.force,
         }
         return generateConfig
     }
@@ -175,14 +325,30 @@ export class Config {
         const config: UserConfig = {
             environments: flags.environments as Environment[],
             buildType: flags.buildType as BuildType | undefined,
+            moduleType: flags.moduleType as ModuleType,
             verbose: flags.verbose,
             ignoreConflicts: flags.ignoreConflicts,
+            nonInteractive: flags.nonInteractive,
             inheritance: flags.inheritance,
+            noComments: flags.noComments,
+            promisify: flags.promisify,
+            propertyAliases: flags.propertyAliases as PropertyAliases,
+            unknownOverAny: flags.unknownOverAny,
+            brandedIntegers: flags.brandedIntegers,
+            cache: flags.cache,
+            force: flags.force,
             pretty: flags.pretty,
+            package: flags.package,
+            tsconfig: flags.tsconfig,
             print: flags.print,
             outdir: flags.outdir,
             girDirectories: flags.girDirectories,
+            metadataDirectories: flags.metadataDirectories,
             ignore: flags.ignore,
+            versions: this.parseVersions(flags.preferVersion),
+            report: flags.report,
+            strict: flags.strict,
+            allowUnresolved: flags.allowUnresolved,
             modules,
         }
 
@@ -193,6 +359,9 @@ export class Config {
             if (configFile.config.buildType) {
                 config.buildType = configFile.config.buildType
             }
+            if (config.moduleType === Config.defaultCliFlags.moduleType.default && configFile.config.moduleType) {
+                config.moduleType = configFile.config.moduleType
+            }
             if (
                 config.verbose === Config.defaultCliFlags.verbose.default &&
                 typeof configFile.config.verbose === 'boolean'
@@ -205,6 +374,18 @@ export class Config {
             ) {
                 config.pretty = configFile.config.pretty
             }
+            if (
+                config.package === Config.defaultCliFlags.package.default &&
+                typeof configFile.config.package === 'boolean'
+            ) {
+                config.package = configFile.config.package
+            }
+            if (
+                config.tsconfig === Config.defaultCliFlags.tsconfig.default &&
+                typeof configFile.config.tsconfig === 'boolean'
+            ) {
+                config.tsconfig = configFile.config.tsconfig
+            }
             if (config.print === Config.defaultCliFlags.print.default && typeof configFile.config.print === 'boolean') {
                 config.print = configFile.config.print
             }
@@ -217,6 +398,12 @@ export class Config {
             ) {
                 config.girDirectories = configFile.config.girDirectories
             }
+            if (
+                Utils.isEqual(config.metadataDirectories, Config.defaults.metadataDirectories) &&
+                configFile.config.metadataDirectories
+            ) {
+                config.metadataDirectories = configFile.config.metadataDirectories
+            }
             if (
                 (!config.ignore || config.ignore.length <= 0 || Utils.isEqual(config.ignore, Config.defaults.ignore)) &&
                 configFile.config.ignore
@@ -235,6 +422,77 @@ export class Config {
             ) {
                 config.inheritance = configFile.config.inheritance
             }
+            if (
+                config.noComments === Config.defaultCliFlags.noComments.default &&
+                typeof configFile.config.noComments === 'boolean'
+            ) {
+                config.noComments = configFile.config.noComments
+            }
+            if (
+                config.promisify === Config.defaultCliFlags.promisify.default &&
+                typeof configFile.config.promisify === 'boolean'
+            ) {
+                config.promisify = configFile.config.promisify
+            }
+            if (
+                config.propertyAliases === Config.defaultCliFlags.propertyAliases.default &&
+                configFile.config.propertyAliases
+            ) {
+                config.propertyAliases = configFile.config.propertyAliases
+            }
+            if (
+                config.unknownOverAny === Config.defaultCliFlags.unknownOverAny.default &&
+                typeof configFile.config.unknownOverAny === 'boolean'
+            ) {
+                config.unknownOverAny = configFile.config.unknownOverAny
+            }
+            if (
+                config.brandedIntegers === Config.defaultCliFlags.brandedIntegers.default &&
+                typeof configFile.config.brandedIntegers === 'boolean'
+            ) {
+                config.brandedIntegers = configFile.config.brandedIntegers
+            }
+            if (config.cache === Config.defaultCliFlags.cache.default && typeof configFile.config.cache === 'boolean') {
+                config.cache = configFile.config.cache
+            }
+            if (config.force === Config.defaultCliFlags.force.default && typeof configFile.config.force === 'boolean') {
+                config.force = configFile.config.force
+            }
+            if (
+                config.nonInteractive === Config.defaultCliFlags.nonInteractive.default &&
+                typeof configFile.config.nonInteractive === 'boolean'
+            ) {
+                config.nonInteractive = configFile.config.nonInteractive
+            }
+            if (configFile.config.transformations) {
+                config.transformations = configFile.config.transformations
+            }
+            if (
+                config.strict === Config.defaultCliFlags.strict.default &&
+                typeof configFile.config.strict === 'boolean'
+            ) {
+                config.strict = configFile.config.strict
+            }
+            if (
+                Utils.isEqual(config.allowUnresolved, Config.defaults.allowUnresolved) &&
+                configFile.config.allowUnresolved
+            ) {
+                config.allowUnresolved = configFile.config.allowUnresolved
+            }
+            if (!config.report && configFile.config.report) {
+                config.report = configFile.config.report
+            }
+            if (configFile.config.patches) {
+                // The paths of patch files are relative to the config file
+                const configDir = Path.dirname(configFile.filepath)
+                config.patches = configFile.config.patches.map((patchOrPath) =>
+                    typeof patchOrPath === 'string' ? Path.resolve(configDir, patchOrPath) : patchOrPath,
+                )
+            }
+            if (configFile.config.versions) {
+                // The versions passed as cli flags are preferred
+                config.versions = { ...configFile.config.versions, ...config.versions }
+            }
         }
         return config
     }
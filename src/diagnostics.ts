@@ -0,0 +1,157 @@
+/**
+ * The Diagnostics collect the problems found while generating the typings, e.g. unresolved types,
+ * print a summary and write them to a JSON or SARIF report
+ */
+
+import fs from 'fs'
+import Path from 'path'
+import { Config } from './config'
+import { Utils } from './utils'
+import { Diagnostic, DiagnosticName, DiagnosticsReport } from './types'
+
+export const DIAGNOSTIC_CODES: { [name in DiagnosticName]: string } = {
+    'unresolved-type': 'TS4G001',
+    'duplicate-constant': 'TS4G002',
+    'false-overload': 'TS4G003',
+    'circular-inheritance': 'TS4G004',
+    'duplicate-symbol': 'TS4G005',
+    'error-domain-conflict': 'TS4G006',
+    'missing-dependency': 'TS4G007',
+    'any-type': 'TS4G008',
+    'untyped-variable': 'TS4G009',
+}
+
+export class Diagnostics {
+    list: Diagnostic[] = []
+
+    /**
+     * Keys of the added diagnostics, the same problem is often found multiple times, e.g. for inherited methods
+     */
+    private keys = new Set<string>()
+
+    public add(diagnostic: Omit<Diagnostic, 'code'>): void {
+        const key = [
+            diagnostic.name,
+            diagnostic.environment,
+            diagnostic.module,
+            diagnostic.symbol,
+            diagnostic.message,
+        ].join('|')
+        if (this.keys.has(key)) return
+        this.keys.add(key)
+        this.list.push({ code: DIAGNOSTIC_CODES[diagnostic.name], ...diagnostic })
+    }
+
+    /**
+     * Returns the unresolved types and the variables without a type which fail the `strict` mode,
+     * GIR types which are mapped to `any` on purpose, e.g. `GObject.Value`, are only reported
+     * @param allowed Glob patterns of the tolerated symbols or types, e.g. `Gtk.Widget.*` or `cairo.*`
+     */
+    public getStrictFailures(allowed: string[] = []): Diagnostic[] {
+        const regExps = allowed.map((pattern) => Utils.globToRegExp(pattern))
+        return this.getSorted().filter(
+            (diagnostic) =>
+                (diagnostic.name === 'unresolved-type' || diagnostic.name === 'untyped-variable') &&
+                !regExps.some(
+                    (regExp) =>
+                        regExp.test(diagnostic.symbol || '') || (diagnostic.type && regExp.test(diagnostic.type)),
+                ),
+        )
+    }
+
+    /**
+     * Returns the diagnostics sorted by code, environment, module and symbol, so that reports of different runs can be compared
+     */
+    public getSorted(): Diagnostic[] {
+        const compare = (a: string | null, b: string | null) => (a || '').localeCompare(b || '')
+        return [...this.list].sort(
+            (a, b) =>
+                compare(a.code, b.code) ||
+                compare(a.environment, b.environment) ||
+                compare(a.module, b.module) ||
+                compare(a.symbol, b.symbol) ||
+                compare(a.message, b.message),
+        )
+    }
+
+    /**
+     * Returns a table with the number of diagnostics of each code and environment
+     */
+    public getSummary(): string[] {
+        const environments = Array.from(new Set(this.list.map((diagnostic) => diagnostic.environment))).sort()
+        const rows = (Object.keys(DIAGNOSTIC_CODES) as DiagnosticName[])
+            .map((name) => [
+                DIAGNOSTIC_CODES[name],
+                name,
+                ...environments.map((environment) =>
+                    String(
+                        this.list.filter(
+                            (diagnostic) => diagnostic.name === name && diagnostic.environment === environment,
+                        ).length,
+                    ),
+                ),
+            ])
+            .filter((row) => row.slice(2).some((count) => count !== '0'))
+
+        const table = [['Code', 'Name', ...environments], ...rows]
+        const widths = table[0].map((_, column) => Math.max(...table.map((row) => row[column].length)))
+        return table.map((row) =>
+            row
+                .map((cell, column) => (column < 2 ? cell.padEnd(widths[column]) : cell.padStart(widths[column])))
+                .join('  '),
+        )
+    }
+
+    /**
+     * Writes the diagnostics as SARIF if the path ends with `.sarif` and as JSON otherwise
+     * @param path
+     */
+    public write(path: string): void {
+        const content = /\.sarif(\.json)?$/.test(path) ? this.toSarif() : this.toReport()
+        fs.mkdirSync(Path.dirname(Path.resolve(path)), { recursive: true })
+        fs.writeFileSync(path, JSON.stringify(content, null, 4))
+    }
+
+    private toReport(): DiagnosticsReport {
+        return { version: Config.appVersion, diagnostics: this.getSorted() }
+    }
+
+    /**
+     * See https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html
+     */
+    private toSarif(): unknown {
+        return {
+            $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+            version: '2.1.0',
+            runs: [
+                {
+                    tool: {
+                        driver: {
+                            name: Config.appName,
+                            version: Config.appVersion,
+                            rules: (Object.keys(DIAGNOSTIC_CODES) as DiagnosticName[]).map((name) => ({
+                                id: DIAGNOSTIC_CODES[name],
+                                name,
+                            })),
+                        },
+                    },
+                    results: this.getSorted().map((diagnostic) => ({
+                        ruleId: diagnostic.code,
+                        level: diagnostic.name === 'missing-dependency' ? 'error' : 'warning',
+                        message: { text: `[${diagnostic.environment}][${diagnostic.module}] ${diagnostic.message}` },
+                        locations: [
+                            {
+                                ...(diagnostic.file
+                                    ? { physicalLocation: { artifactLocation: { uri: diagnostic.file } } }
+                                    : {}),
+                                ...(diagnostic.symbol
+                                    ? { logicalLocations: [{ fullyQualifiedName: diagnostic.symbol }] }
+                                    : {}),
+                            },
+                        ],
+                    })),
+                },
+            ],
+        }
+    }
+}
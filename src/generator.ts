@@ -5,13 +5,87 @@ import { GirModule } from './gir-module'
 import TemplateProcessor from './template-processor'
 import { Transformation } from './transformation'
 import { Logger } from './logger'
+import { Config } from './config'
+import { Utils } from './utils'
+import { Diagnostics } from './diagnostics'
 
-import { InheritanceTable, SymTable, GenerateConfig } from './types'
+import {
+    InheritanceTable,
+    SymTable,
+    GenerateConfig,
+    GenerateManifest,
+    GenerateManifestModule,
+    PackageJson,
+    Patches,
+    TsConfig,
+} from './types'
+
+/**
+ * The manifest is written to the output directory of each environment and is used to skip unchanged modules
+ */
+const MANIFEST_FILENAME = '.ts-for-gir-manifest.json'
+
+/**
+ * Written to the output directory of each environment if the `tsconfig` option is set
+ */
+const TSCONFIG_FILENAME = 'tsconfig.ts-for-gir.json'
 
 export class Generator {
     log: Logger
-    constructor(private readonly config: GenerateConfig) {
+    /**
+     * The patches of `templates/patches` and of the config
+     */
+    private patches: Patches
+    /**
+     * @param config
+     * @param diagnostics Collects the problems found in the modules, can be shared by the generators of all environments
+     */
+    constructor(private readonly config: GenerateConfig, public readonly diagnostics = new Diagnostics()) {
         this.log = new Logger(config.environment, config.verbose, 'TsForGir')
+        this.patches = this.loadPatches()
+    }
+
+    /**
+     * Loads the patches shipped with ts-for-gir and the patches of the config, later patches override earlier ones
+     */
+    private loadPatches(): Patches {
+        const patches: Required<Patches> = { members: {}, add: {}, dependencies: {} }
+        for (const patchOrPath of [...TemplateProcessor.getPatchFiles(), ...(this.config.patches || [])]) {
+            const { members = {}, add = {}, dependencies = {} } =
+                typeof patchOrPath === 'string' ? this.readPatchFile(patchOrPath) : patchOrPath
+            for (const fullSymName of Object.keys(members)) {
+                patches.members[fullSymName] = { ...patches.members[fullSymName], ...members[fullSymName] }
+            }
+            for (const fullSymName of Object.keys(add)) {
+                patches.add[fullSymName] = [...(patches.add[fullSymName] || []), ...add[fullSymName]]
+            }
+            for (const packageName of Object.keys(dependencies)) {
+                patches.dependencies[packageName] = [
+                    ...(patches.dependencies[packageName] || []),
+                    ...dependencies[packageName],
+                ]
+            }
+        }
+        return patches
+    }
+
+    /**
+     * Reads a JSON patch file or a JS patch file which exports the patches, throws if it can't be loaded
+     * @param path
+     */
+    private readPatchFile(path: string): Patches {
+        const fullPath = Path.resolve(path)
+        try {
+            if (Path.extname(fullPath) === '.js') {
+                // The `watch` command loads a changed patch file again
+                delete require.cache[fullPath]
+                // eslint-disable-next-line @typescript-eslint/no-var-requires
+                return require(fullPath) as Patches
+            }
+            return JSON.parse(fs.readFileSync(fullPath, 'utf8')) as Patches
+        } catch (error) {
+            throw new Error(`Can't load the patch file '${path}': ${(error as Error).message}`)
+        }
     }
 
     private exportGjs(girModules: GirModule[]): void {
@@ -20,14 +94,125 @@ export class Generator {
         const templateProcessor = new TemplateProcessor({ girModules: girModules }, 'gjs', this.config)
 
         // Types
-        templateProcessor.create('Gjs.d.ts', this.config.outdir, 'Gjs.d.ts')
+        templateProcessor.create('Gjs.d.ts', this.config.outdir, 'Gjs.d.ts', 'Gjs')
+
+        // Ambient 'gi://' modules instead of the legacy `imports` global
+        if (this.config.moduleType === 'esm') {
+            templateProcessor.create('gi.d.ts', this.config.outdir, 'gi.d.ts')
+            return
+        }
+
         templateProcessor.create('index.d.ts', this.config.outdir, 'index.d.ts')
 
         // Lib
         if (this.config.buildType === 'lib') {
             templateProcessor.create('index.js', this.config.outdir, 'index.js')
-            templateProcessor.create('Gjs.js', this.config.outdir, 'Gjs.js')
+            templateProcessor.create('Gjs.js', this.config.outdir, 'Gjs.js', 'Gjs')
+        }
+    }
+
+    /**
+     * Returns the version of a generated npm package, e.g. `4.0.0-1.0.1` for Gtk-4.0 generated by ts-for-gir 1.0.1
+     * @param version Version of the GIR module, e.g. '4.0'
+     */
+    private getPackageVersion(version: string): string {
+        const parts = version.split('.')
+        while (parts.length < 3) parts.push('0')
+        return `${parts.join('.')}-${Config.appVersion}`
+    }
+
+    private getPackageJson(
+        packageName: string,
+        version: string,
+        description: string,
+        dependencies: PackageJson['dependencies'],
+    ): PackageJson {
+        const types = `./${packageName}.d.ts`
+        const main = this.config.buildType === 'lib' ? `./${packageName}.js` : undefined
+        return {
+            name: Transformation.getPackageName(this.config.environment, packageName),
+            version,
+            description,
+            main,
+            types,
+            exports: {
+                '.': main ? { types, default: main } : { types },
+                './package.json': './package.json',
+            },
+            dependencies,
+            keywords: ['Gir', 'TypeScript', 'types', 'GObject-Introspection', this.config.environment, packageName],
+        }
+    }
+
+    private writePackageJson(packageJson: PackageJson): void {
+        if (!this.config.outdir) return
+        const packageDir = Path.join(this.config.outdir, packageJson.name)
+        fs.mkdirSync(packageDir, { recursive: true })
+        fs.writeFileSync(Path.join(packageDir, 'package.json'), JSON.stringify(packageJson, null, 4) + '\n')
+    }
+
+    /**
+     * Writes the package.json and README.md of the npm package of a module,
+     * the dependencies are the packages of the modules its files depend on
+     * @param girModule
+     * @param girModules
+     */
+    public exportPackage(girModule: GirModule, girModules: GirModule[]): void {
+        if (!this.config.outdir) return
+
+        const dependencies: PackageJson['dependencies'] = {}
+        if (this.config.environment === 'gjs') {
+            dependencies[Transformation.getPackageName('gjs', 'Gjs')] = Config.appVersion
+        }
+        for (const packageName of girModule.getDependencies(this.patches)) {
+            const dependency = girModules.find((girModule) => girModule.packageName === packageName)
+            if (!dependency || dependency === girModule) continue
+            dependencies[Transformation.getPackageName(this.config.environment, packageName)] = this.getPackageVersion(
+                dependency.version,
+            )
         }
+
+        const environmentName = this.config.environment === 'node' ? 'node-gtk' : 'GJS'
+        const packageJson = this.getPackageJson(
+            girModule.packageName,
+            this.getPackageVersion(girModule.version),
+            `${environmentName} TypeScript type definitions for ${girModule.packageName}`,
+            dependencies,
+        )
+        this.writePackageJson(packageJson)
+
+        const templateProcessor = new TemplateProcessor(
+            {
+                name: girModule.name,
+                version: girModule.version,
+                packageName: girModule.packageName,
+                packageJson,
+                ns: girModule.ns.$,
+                pkgConfigPackages: (girModule.repo.package || []).map((pkg) => pkg.$.name),
+                cIncludes: (girModule.repo['c:include'] || []).map((include) => include.$.name),
+                appName: Config.appName,
+                appVersion: Config.appVersion,
+            },
+            girModule.packageName,
+            this.config,
+        )
+        // Not created with the TemplateProcessor because it would try to prettify the file
+        const readme = templateProcessor.load('package-readme.md')
+        fs.writeFileSync(Path.join(this.config.outdir, packageJson.name, 'README.md'), readme)
+    }
+
+    /**
+     * Writes the package.json of the `@girs/gjs` package with the GJS built-in modules, all module packages depend on it
+     */
+    public exportGjsPackage(): void {
+        this.writePackageJson(
+            this.getPackageJson(
+                'Gjs',
+                Config.appVersion,
+                'GJS TypeScript type definitions for the GJS built-in modules',
+                {},
+            ),
+        )
     }
 
     private exportGjsCastLib(inheritanceTable: InheritanceTable): void {
@@ -49,6 +234,58 @@ export class Generator {
         }
     }
 
+    /**
+     * Writes the `tsconfig.ts-for-gir.json` for the environment, which projects can extend.
+     * It does not set any emit options, so it can be used with and without `noEmit`
+     */
+    public exportTsConfig(): void {
+        if (!this.config.outdir) return
+
+        const { environment, buildType, moduleType } = this.config
+        const esm = moduleType === 'esm'
+        const paths: TsConfig['compilerOptions']['paths'] = {}
+        const typeRoots: string[] = []
+        const files: string[] = []
+
+        if (environment === 'gjs') {
+            // The `gi://` modules are ambient modules declared by the module files, `gi.d.ts` references them all
+            files.push(esm ? './gi.d.ts' : './index.d.ts')
+        } else {
+            files.push('./index.d.ts')
+            if (buildType === 'lib') paths['node-gtk'] = ['./index.d.ts']
+        }
+        if (this.config.package) {
+            const packageDir = Path.relative(
+                Transformation.getEnvironmentDir(environment, this.config.outdir),
+                Path.join(this.config.outdir, '@girs'),
+            )
+            // Imports use the paths, triple-slash directives of the 'types' build type the type roots
+            paths['@girs/*'] = [`${packageDir}/*`]
+            typeRoots.push(Path.dirname(packageDir))
+        }
+
+        const tsConfig: TsConfig = {
+            compilerOptions: {
+                // ES modules are supported since GJS 1.68 (SpiderMonkey 78)
+                target: esm ? 'ES2020' : 'ES2019',
+                // Neither GJS nor node-gtk provide the DOM
+                lib: [esm ? 'ES2020' : 'ES2019'],
+                module: esm ? 'ES2020' : 'CommonJS',
+                moduleResolution: 'node',
+                types: environment === 'node' ? ['node'] : [],
+                ...(typeRoots.length ? { typeRoots } : {}),
+                skipLibCheck: true,
+                baseUrl: '.',
+                paths,
+            },
+            files,
+        }
+
+        const outputDir = Transformation.getEnvironmentDir(environment, this.config.outdir)
+        fs.mkdirSync(outputDir, { recursive: true })
+        fs.writeFileSync(Path.join(outputDir, TSCONFIG_FILENAME), JSON.stringify(tsConfig, null, 4) + '\n')
+    }
+
     private finaliseInheritance(inheritanceTable: InheritanceTable): void {
         for (const clsName of Object.keys(inheritanceTable)) {
             let p: string | string[] = inheritanceTable[clsName][0]
@@ -62,6 +299,115 @@ export class Generator {
         }
     }
 
+    private getManifestPath(): string | null {
+        if (!this.config.outdir) return null
+        return Path.join(
+            Transformation.getEnvironmentDir(this.config.environment, this.config.outdir),
+            MANIFEST_FILENAME,
+        )
+    }
+
+    private readManifest(): GenerateManifest {
+        const manifestPath = this.getManifestPath()
+        if (manifestPath && fs.existsSync(manifestPath)) {
+            try {
+                return JSON.parse(fs.readFileSync(manifestPath, 'utf8')) as GenerateManifest
+            } catch (error) {
+                this.log.warn(`Can't read the manifest ${manifestPath}, all modules will be generated`)
+            }
+        }
+        return { modules: {} }
+    }
+
+    private writeManifest(manifest: GenerateManifest): void {
+        const manifestPath = this.getManifestPath()
+        if (!manifestPath) return
+        fs.mkdirSync(Path.dirname(manifestPath), { recursive: true })
+        fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 4))
+    }
+
+    /**
+     * Returns the transformations of the config with the source code of the rename hooks,
+     * so that the modules are generated again if a hook changes
+     */
+    private getManifestTransformations(): GenerateManifestModule['config']['transformations'] {
+        if (!this.config.transformations) return undefined
+        return JSON.parse(
+            JSON.stringify(this.config.transformations, (key, value) =>
+                typeof value === 'function' ? value.toString() : value,
+            ),
+        )
+    }
+
+    /**
+     * Collects everything the generated files of a module depend on
+     * @param girModule
+     * @param girModules
+     */
+    public getManifestModule(girModule: GirModule, girModules: GirModule[]): GenerateManifestModule {
+        const dependencies: GenerateManifestModule['dependencies'] = {}
+        for (const packageName of girModule.transitiveDependencies) {
+            const dependency = girModules.find((girModule) => girModule.packageName === packageName)
+            dependencies[packageName] = dependency?.hash || null
+        }
+        const {
+            environment,
+            buildType,
+            moduleType,
+            pretty,
+            inheritance,
+            noComments,
+            promisify,
+            propertyAliases,
+            unknownOverAny,
+            brandedIntegers,
+        } = this.config
+        const manifestModule: GenerateManifestModule = {
+            version: Config.appVersion,
+            hash: girModule.hash,
+            dependencies,
+            patches: Utils.getHash(JSON.stringify(this.patches)),
+            config: {
+                environment,
+                buildType,
+                moduleType,
+                pretty,
+                package: this.config.package,
+                inheritance,
+                noComments,
+                promisify,
+                propertyAliases,
+                unknownOverAny,
+                brandedIntegers,
+                transformations: this.getManifestTransformations(),
+            },
+        }
+        // Compared with the module as it is read from the manifest, which has no undefined options
+        return JSON.parse(JSON.stringify(manifestModule))
+    }
+
+    /**
+     * Returns true if the inputs of a module have not changed since the last run and the generated files still exist
+     * @param manifest The manifest of the last run
+     * @param manifestModule
+     * @param packageName
+     */
+    public isModuleUnchanged(
+        manifest: GenerateManifest,
+        manifestModule: GenerateManifestModule,
+        packageName: string,
+    ): boolean {
+        if (this.config.force || !this.config.outdir || !manifestModule.hash) return false
+        const outputDir = Transformation.getOutputDir(this.config, this.config.outdir, packageName)
+        const outputFiles = [`${packageName}.d.ts`]
+        if (this.config.buildType === 'lib') outputFiles.push(`${packageName}.js`)
+        if (this.config.package) outputFiles.push('package.json')
+        return (
+            Utils.isEqual(manifest.modules[packageName], manifestModule) &&
+            outputFiles.every((outputFile) => fs.existsSync(Path.join(outputDir, outputFile)))
+        )
+    }
+
     public start(girModules: GirModule[]): void {
         this.log.info(`Start to generate .d.ts files for '${this.config.environment}' as '${this.config.buildType}'.`)
 
@@ -73,6 +419,8 @@ export class Generator {
 
         this.log.info('Files parsed, loading types...')
 
+        for (const girModule of girModules) girModule.diagnostics = this.diagnostics
+
         const symTable: SymTable = {}
         for (const girModule of girModules) girModule.loadTypes(symTable)
 
@@ -81,43 +429,42 @@ export class Generator {
 
         this.finaliseInheritance(inheritanceTable)
 
-        const patch = {
-            'Atk.Object.get_description': [
-                '/* return type clashes with Atk.Action.get_description */',
-                'get_description(): string | null',
-            ],
-            'Atk.Object.get_name': ['/* return type clashes with Atk.Action.get_name */', 'get_name(): string | null'],
-            'Atk.Object.set_description': [
-                '/* return type clashes with Atk.Action.set_description */',
-                'set_description(description: string): boolean | null',
-            ],
-            'Gtk.Container.child_notify': ['/* child_notify clashes with Gtk.Widget.child_notify */'],
-            'Gtk.MenuItem.activate': ['/* activate clashes with Gtk.Widget.activate */'],
-            'Gtk.TextView.get_window': ['/* get_window clashes with Gtk.Widget.get_window */'],
-            'WebKit.WebView.get_settings': ['/* get_settings clashes with Gtk.Widget.get_settings */'],
-        }
-
         this.log.info('Types loaded, generating .d.ts...')
 
+        const lastManifest = this.readManifest()
+        const manifest: GenerateManifest = { modules: {} }
+
         for (const girModule of girModules) {
+            const manifestModule = this.getManifestModule(girModule, girModules)
+            manifest.modules[girModule.packageName] = manifestModule
+            if (this.isModuleUnchanged(lastManifest, manifestModule, girModule.packageName)) {
+                this.log.log(` - ${girModule.packageName} (unchanged)`)
+                continue
+            }
+
             let dtOutf: NodeJS.WritableStream = process.stdout
             let dtOutputPath: string | null = null
             if (this.config.outdir) {
                 const packageName: string = girModule.packageName || 'unknown'
-                const OutputDir = Transformation.getEnvironmentDir(this.config.environment, this.config.outdir)
+                const OutputDir = Transformation.getOutputDir(this.config, this.config.outdir, packageName)
                 const dtFileName = `${packageName}.d.ts`
                 dtOutputPath = Path.join(OutputDir, dtFileName)
                 fs.mkdirSync(OutputDir, { recursive: true })
                 dtOutf = fs.createWriteStream(dtOutputPath)
             }
             this.log.log(` - ${girModule.packageName} ...`)
-            girModule.patch = patch
+            girModule.patches = this.patches
             girModule.export(dtOutf, dtOutputPath)
             if (this.config.buildType === 'lib') {
                 girModule.exportJs()
             }
+            if (this.config.package) {
+                this.exportPackage(girModule, girModules)
+            }
         }
 
+        this.writeManifest(manifest)
+
         if (this.config.environment === 'node') {
             // node-gtk internal stuff
             this.exportNodeGtk(girModules)
@@ -127,6 +474,13 @@ export class Generator {
             // GJS internal stuff
             this.exportGjs(girModules)
             this.exportGjsCastLib(inheritanceTable)
+            if (this.config.package) {
+                this.exportGjsPackage()
+            }
+        }
+
+        if (this.config.tsconfig) {
+            this.exportTsConfig()
         }
 
         this.log.success('Done.')
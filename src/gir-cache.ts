@@ -0,0 +1,89 @@
+/**
+ * The GirCache stores the parsed GIR files on the file system, so that only changed GIR files need to be parsed again
+ */
+
+import Path from 'path'
+import { promises as fs } from 'fs'
+import { Config } from './config'
+import { Logger } from './logger'
+import { Utils } from './utils'
+import { ParsedGir, GirCacheEntry } from './types'
+
+export class GirCache {
+    static cacheDir = Path.join(process.cwd(), 'node_modules', '.cache', Config.appName)
+
+    log: Logger
+
+    constructor(verbose: boolean) {
+        this.log = new Logger('', verbose, 'GirCache')
+    }
+
+    /**
+     * Removes all cached GIR files
+     */
+    public static async clear(): Promise<void> {
+        await fs.rm(GirCache.cacheDir, { recursive: true, force: true })
+    }
+
+    /**
+     * xml2js merges elements like `<constructor>` with the inherited `Object.prototype.constructor` function,
+     * which would be stored as `null`, so functions are removed from arrays
+     * @param key
+     * @param value
+     */
+    private static replacer(key: string, value: unknown): unknown {
+        if (Array.isArray(value)) return value.filter((item) => typeof item !== 'function')
+        return value
+    }
+
+    private getCachePath(girPath: string): string {
+        return Path.join(GirCache.cacheDir, `${Utils.getHash(Path.resolve(girPath))}.json`)
+    }
+
+    /**
+     * Returns the cached result of a GIR file or null if the file has changed since it was cached
+     * @param girPath
+     * @param fileContents
+     */
+    public async load(girPath: string, fileContents: string): Promise<ParsedGir | null> {
+        let entry: GirCacheEntry
+        try {
+            entry = JSON.parse(await fs.readFile(this.getCachePath(girPath), 'utf8')) as GirCacheEntry
+        } catch (error) {
+            return null
+        }
+        const { mtimeMs } = await fs.stat(girPath)
+        if (
+            entry.version !== Config.appVersion ||
+            entry.mtimeMs !== mtimeMs ||
+            entry.hash !== Utils.getHash(fileContents)
+        ) {
+            return null
+        }
+        this.log.log(`Using cached ${girPath}...`)
+        return entry.parsedGir
+    }
+
+    /**
+     * Stores the parsed GIR file, this must be done before a GirModule is created because it extends the parsed objects
+     * @param girPath
+     * @param fileContents
+     * @param parsedGir
+     */
+    public async save(girPath: string, fileContents: string, parsedGir: ParsedGir): Promise<void> {
+        const { mtimeMs } = await fs.stat(girPath)
+        const entry: GirCacheEntry = {
+            version: Config.appVersion,
+            path: Path.resolve(girPath),
+            mtimeMs,
+            hash: Utils.getHash(fileContents),
+            parsedGir,
+        }
+        try {
+            await fs.mkdir(GirCache.cacheDir, { recursive: true })
+            await fs.writeFile(this.getCachePath(girPath), JSON.stringify(entry, GirCache.replacer))
+        } catch (error) {
+            this.log.warn(`Can't write the cache of ${girPath}: ${error}`)
+        }
+    }
+}
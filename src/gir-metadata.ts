@@ -0,0 +1,289 @@
+/**
+ * The GirMetadata applies the rules of the Vala `.metadata` files to a parsed GIR file before a GirModule is created,
+ * see https://wiki.gnome.org/Projects/Vala/Manual/GIR%20metadata%20format
+ * Only the arguments which also apply to JavaScript are supported: `skip`, `nullable`, `allow_none` and `type`
+ */
+
+import { Logger } from './logger'
+import { Utils } from './utils'
+import { MetadataRule, MetadataSelector, ParsedGir } from './types'
+
+/**
+ * The GIR elements by the selector types of the metadata format
+ */
+const ELEMENT_TYPES: { [selectorType: string]: string } = {
+    class: 'class',
+    interface: 'interface',
+    record: 'record',
+    union: 'union',
+    enumeration: 'enumeration',
+    bitfield: 'bitfield',
+    callback: 'callback',
+    constant: 'constant',
+    alias: 'alias',
+    function: 'function',
+    method: 'method',
+    constructor: 'constructor',
+    property: 'property',
+    signal: 'glib:signal',
+    field: 'field',
+    virtual_method: 'virtual-method',
+    member: 'member',
+    parameter: 'parameter',
+}
+
+/**
+ * Elements whose type is the type of the return value
+ */
+const CALLABLE_ELEMENTS = ['function', 'method', 'constructor', 'glib:signal', 'virtual-method', 'callback']
+
+/**
+ * Vala type names which differ from the GIR type names
+ */
+const VALA_TYPE_MAP: { [valaType: string]: string } = {
+    string: 'utf8',
+    bool: 'gboolean',
+    char: 'gchar',
+    uchar: 'guchar',
+    unichar: 'gunichar',
+    short: 'gshort',
+    ushort: 'gushort',
+    int: 'gint',
+    uint: 'guint',
+    long: 'glong',
+    ulong: 'gulong',
+    int8: 'gint8',
+    uint8: 'guint8',
+    int16: 'gint16',
+    uint16: 'guint16',
+    int32: 'gint32',
+    uint32: 'guint32',
+    int64: 'gint64',
+    uint64: 'guint64',
+    size_t: 'gsize',
+    ssize_t: 'gssize',
+    float: 'gfloat',
+    double: 'gdouble',
+    void: 'none',
+}
+
+/**
+ * A GIR element as parsed by xml2js
+ */
+interface MetadataNode {
+    $?: { [attribute: string]: string | undefined }
+    [element: string]: unknown
+}
+
+export class GirMetadata {
+    log: Logger
+
+    /**
+     * Names of the ignored arguments, reported once after the rules are applied
+     */
+    private unsupportedArgs = new Set<string>()
+
+    constructor(packageName: string, verbose: boolean) {
+        this.log = new Logger('', verbose, `GirMetadata ${packageName}`)
+    }
+
+    /**
+     * Parses the rules of a metadata file, e.g. `Widget.get_style skip` or `.get_parent nullable`
+     * relative to the last absolute rule
+     * @param content
+     */
+    public parse(content: string): MetadataRule[] {
+        const rules: MetadataRule[] = []
+        let absoluteSelectors: MetadataSelector[] = []
+
+        // Block comments are removed, but their line breaks are kept for the line numbers
+        const lines = content.replace(/\/\*[\s\S]*?\*\//g, (comment) => comment.replace(/[^\n]/g, '')).split('\n')
+        lines.forEach((line, index) => {
+            const tokens = line.replace(/\/\/.*$/, '').match(/"(?:[^"\\]|\\.)*"|[^\s=]+|=/g)
+            if (!tokens) return
+            const [selector, ...argTokens] = tokens
+
+            let selectors = this.parseSelector(selector)
+            if (selector.startsWith('.')) {
+                selectors = [...absoluteSelectors, ...selectors]
+            } else {
+                absoluteSelectors = selectors
+            }
+
+            const args: MetadataRule['args'] = {}
+            for (let i = 0; i < argTokens.length; i++) {
+                if (argTokens[i + 1] === '=') {
+                    args[argTokens[i]] = this.parseValue(argTokens[i + 2] || '')
+                    i += 2
+                } else {
+                    args[argTokens[i]] = 'true'
+                }
+            }
+
+            rules.push({ selectors, args, line: index + 1 })
+        })
+        return rules
+    }
+
+    /**
+     * Applies the rules to the namespace of a parsed GIR file
+     * @param gir
+     * @param rules
+     */
+    public apply(gir: ParsedGir, rules: MetadataRule[]): void {
+        const namespace = gir.repository.namespace?.[0] as MetadataNode | undefined
+        if (!namespace) return
+
+        for (const rule of rules) {
+            const matches = this.select(namespace, rule.selectors)
+            if (!matches.length) {
+                this.log.info(`Line ${rule.line}: No element found for '${this.selectorToString(rule.selectors)}'`)
+            }
+            for (const [elementType, node] of matches) {
+                this.applyArgs(elementType, node, rule)
+            }
+        }
+
+        if (this.unsupportedArgs.size) {
+            this.log.info(
+                `Ignored the unsupported arguments and selector types: ${Array.from(this.unsupportedArgs).join(', ')}`,
+            )
+        }
+    }
+
+    private parseSelector(selector: string): MetadataSelector[] {
+        return selector
+            .split('.')
+            .filter((part) => part.length)
+            .map((part) => {
+                const [pattern, type] = part.split('#')
+                return type ? { pattern, type } : { pattern }
+            })
+    }
+
+    private parseValue(value: string): string {
+        if (value.startsWith('"') && value.endsWith('"')) {
+            return value.slice(1, -1).replace(/\\(.)/g, '$1')
+        }
+        return value
+    }
+
+    private selectorToString(selectors: MetadataSelector[]): string {
+        return selectors.map(({ pattern, type }) => (type ? `${pattern}#${type}` : pattern)).join('.')
+    }
+
+    /**
+     * Returns the named child elements with their element type, the parameters of functions included
+     * @param node
+     */
+    private getChildren(node: MetadataNode): [string, MetadataNode][] {
+        const children: [string, MetadataNode][] = []
+        for (const elementType of Object.values(ELEMENT_TYPES)) {
+            const elements =
+                elementType === 'parameter'
+                    ? (node.parameters as MetadataNode[] | undefined)?.[0]?.parameter
+                    : node[elementType]
+            // xml2js keeps `constructor` as the inherited function if the element has no constructors
+            if (!Array.isArray(elements)) continue
+            for (const element of elements as MetadataNode[]) {
+                if (element?.$?.name) children.push([elementType, element])
+            }
+        }
+        return children
+    }
+
+    private select(namespace: MetadataNode, selectors: MetadataSelector[]): [string, MetadataNode][] {
+        let matches: [string, MetadataNode][] = [['namespace', namespace]]
+        for (const { pattern, type } of selectors) {
+            const regExp = Utils.globToRegExp(pattern)
+            const elementType = type ? ELEMENT_TYPES[type] : undefined
+            if (type && !elementType) {
+                this.unsupportedArgs.add(`#${type}`)
+                return []
+            }
+            matches = matches
+                .reduce((children, [, node]) => children.concat(this.getChildren(node)), [] as [string, MetadataNode][])
+                .filter(([childType]) => !elementType || childType === elementType)
+                // Vala uses underscores instead of dashes, e.g. for signals and properties
+                .filter(([, child]) => regExp.test((child.$?.name || '').replace(/-/g, '_')))
+        }
+        return matches
+    }
+
+    private applyArgs(elementType: string, node: MetadataNode, rule: MetadataRule): void {
+        // Of functions the arguments apply to the return value
+        const returnValue = (node['return-value'] as MetadataNode[] | undefined)?.[0]
+        const target = CALLABLE_ELEMENTS.includes(elementType) ? returnValue : node
+        for (const name of Object.keys(rule.args)) {
+            const value = rule.args[name]
+            switch (name) {
+                case 'skip':
+                    // `skip=false` can't make elements introspectable which are not
+                    if (value !== 'false') node.$ = { ...node.$, introspectable: '0' }
+                    break
+                case 'nullable':
+                case 'allow_none':
+                    if (!target) break
+                    target.$ =
+                        value === 'false'
+                            ? { ...target.$, nullable: '0', 'allow-none': '0' }
+                            : { ...target.$, nullable: '1' }
+                    break
+                case 'type':
+                    if (target) this.setType(target, value)
+                    break
+                default:
+                    this.unsupportedArgs.add(name)
+            }
+        }
+    }
+
+    /**
+     * Replaces the type of an element with a Vala type, e.g. `unowned GLib.List<Gtk.Widget>?`
+     * @param target
+     * @param valaType
+     */
+    private setType(target: MetadataNode, valaType: string): void {
+        let name = valaType.trim().replace(/^(owned|unowned|weak)\s+/, '')
+        if (name.endsWith('?')) {
+            name = name.slice(0, -1)
+            target.$ = { ...target.$, nullable: '1' }
+        }
+        delete target.type
+        delete target.array
+        if (name.endsWith('[]')) {
+            target.array = [{ $: {}, type: [this.parseType(name.slice(0, -2))] }]
+        } else {
+            target.type = [this.parseType(name)]
+        }
+    }
+
+    private parseType(valaType: string): MetadataNode {
+        const name = valaType.trim().replace(/^(owned|unowned|weak)\s+/, '')
+        if (name.endsWith('*')) return { $: { name: 'gpointer' } }
+
+        const generic = name.match(/^([^<]+)<(.+)>$/)
+        if (!generic) return { $: { name: VALA_TYPE_MAP[name] || name } }
+
+        // Split the type arguments at the commas which are not nested, e.g. `GLib.HashTable<string,GLib.List<int>>`
+        const typeArgs: string[] = []
+        let depth = 0
+        let current = ''
+        for (const char of generic[2]) {
+            if (char === ',' && depth === 0) {
+                typeArgs.push(current)
+                current = ''
+                continue
+            }
+            if (char === '<') depth++
+            if (char === '>') depth--
+            current += char
+        }
+        typeArgs.push(current)
+
+        return {
+            $: { name: VALA_TYPE_MAP[generic[1]] || generic[1] },
+            type: typeArgs.map((typeArg) => this.parseType(typeArg)),
+        }
+    }
+}
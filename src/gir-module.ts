@@ -1,13 +1,23 @@
 import TemplateProcessor from './template-processor'
-import { Transformation, C_TYPE_MAP, FULL_TYPE_MAP, POD_TYPE_MAP, POD_TYPE_MAP_ARRAY } from './transformation'
+import {
+    Transformation,
+    C_TYPE_MAP,
+    FULL_TYPE_MAP,
+    POD_TYPE_MAP,
+    POD_TYPE_MAP_ARRAY,
+    INTEGER_TYPE_RANGES,
+    BIGINT_TYPES,
+} from './transformation'
 import { Logger } from './logger'
 import { Utils } from './utils'
+import { Diagnostics } from './diagnostics'
 
 import {
     GirRepository,
     GirNamespace,
     GirAlias,
     GirEnumeration,
+    GirEnumerationMember,
     GirFunction,
     GirClass,
     GirVariable,
@@ -28,6 +38,10 @@ import {
     FunctionMap,
     LocalNames,
     ClassDetails,
+    TsDocTag,
+    DiagnosticName,
+    Patches,
+    PatchMember,
 } from './types'
 
 /**
@@ -59,13 +73,32 @@ export class GirModule {
     importName: string
     dependencies: string[] = []
     transitiveDependencies: string[] = []
+    /**
+     * Hash of the GIR file content, used to skip unchanged modules
+     */
+    hash: string | null = null
+    /**
+     * Path of the GIR file, used for the diagnostics
+     */
+    girFile: string | null = null
     repo: GirRepository
     ns: GirNamespace = { $: { name: '', version: '' } }
     /**
      * Used to find namespaces that are used in other modules
      */
     symTable: SymTable = {}
-    patch: { [key: string]: string[] } = {}
+    /**
+     * Fixes for bad annotations, see `templates/patches`
+     */
+    patches: Patches = {}
+    /**
+     * Collects the problems found while generating the module, shared by all modules of a generator
+     */
+    diagnostics = new Diagnostics()
+    /**
+     * The type aliases of the callbacks declared inline, e.g. in fields, by their name, exported at the end of the module
+     */
+    private inlineCallbacks: { [name: string]: string[] } = {}
     transformation: Transformation
     extends?: string
     log: Logger
@@ -76,7 +109,14 @@ export class GirModule {
      */
     constNames: { [varName: string]: 1 } = {}
 
+    /**
+     * Maps C identifiers and C types like `gtk_widget_show` or `GtkWidget` to the names used in the generated typings.
+     * Is used to resolve the gtk-doc references in the documentation, see `loadCSymTable`
+     */
+    private cSymTable: { [cName: string]: string } | null = null
+
     private commentRegExp = /\/\*.*\*\//g
+    private tsDocLineRegExp = /^\s*(\/\*\*|\*)/
     private paramRegExp = /[0-9a-zA-Z_]*:/g
     private optParamRegExp = /[0-9a-zA-Z_]*\?:/g
 
@@ -98,6 +138,33 @@ export class GirModule {
         this.importName = this.transformation.transformModuleNamespaceName(this.packageName)
     }
 
+    /**
+     * Logs a problem and adds it to the diagnostics
+     * @param name
+     * @param message
+     * @param symbol Path of the affected symbol, e.g. `Gtk.Widget.get_style`
+     * @param logLevel `null` to not log the problem, e.g. for the many false overloads of Gtk
+     * @param type The GIR type of an unresolved or `any` type
+     */
+    private addDiagnostic(
+        name: DiagnosticName,
+        message: string,
+        symbol: string | null = null,
+        logLevel: 'warn' | 'error' | null = 'warn',
+        type?: string,
+    ): void {
+        if (logLevel) this.log[logLevel](message)
+        this.diagnostics.add({
+            name,
+            message,
+            environment: this.config.environment,
+            module: this.packageName,
+            symbol,
+            file: this.girFile,
+            ...(type ? { type } : {}),
+        })
+    }
+
     private loadDependencies(girInclude: GirInclude[]): string[] {
         const dependencies: string[] = []
         for (const i of girInclude) {
@@ -129,6 +196,9 @@ export class GirModule {
                 retVal._module = this
                 if (retVal.$ && retVal.$.name) {
                     retVal._fullSymName = `${girFunc._fullSymName}.${retVal.$.name}`
+                } else if (girFunc._fullSymName) {
+                    // Return values have no name, e.g. for the diagnostics
+                    retVal._fullSymName = `${girFunc._fullSymName} return value`
                 }
             }
     }
@@ -165,7 +235,7 @@ export class GirModule {
                     }
                     const symName = `${this.name}.${girConstruct.$.name}`
                     if (dict[symName]) {
-                        this.log.warn(`Duplicate symbol: ${symName}`)
+                        this.addDiagnostic('duplicate-symbol', `Duplicate symbol: ${symName}`, symName)
                         debugger
                     }
 
@@ -260,12 +330,118 @@ export class GirModule {
         }
     }
 
-    private typeLookup(girVar: GirVariable, out = true): string {
+    /**
+     * Adds a diagnostic if a GIR type without an equivalent is mapped to `any`, e.g. `va_list`
+     * @param girVar
+     * @param girTypeName
+     * @param typeName The mapped type
+     * @param received The value is passed to the application, so `any` is replaced with `unknown` if the `unknownOverAny` option is set
+     */
+    private checkAnyType(girVar: GirVariable, girTypeName: string, typeName: string, received = false): string {
+        if (/^any(\[\])?( \| null)?$/.test(typeName)) {
+            if (this.config.unknownOverAny && received) typeName = typeName.replace(/^any/, 'unknown')
+            this.addDiagnostic(
+                'any-type',
+                `The type '${girTypeName}' of '${girVar.$?.name || girVar._fullSymName}' is generated as '${typeName}'`,
+                girVar._fullSymName || girVar.$?.name || null,
+                null,
+                girTypeName,
+            )
+        }
+        return typeName
+    }
+
+    /**
+     * Adds a diagnostic for a variable without a type, e.g. varargs, which is generated as `any`
+     * @param girVar
+     * @param girTypeName E.g. `varargs` or `none`
+     * @param received The value is passed to the application, so `unknown` is returned if the `unknownOverAny` option is set
+     */
+    private getUntypedType(girVar: GirVariable, girTypeName: string, received = false): string {
+        const typeName = this.config.unknownOverAny && received ? 'unknown' : 'any'
+        this.addDiagnostic(
+            'untyped-variable',
+            `The type '${girTypeName}' of '${girVar.$?.name || girVar._fullSymName}' is generated as '${typeName}'`,
+            girVar._fullSymName || girVar.$?.name || null,
+            null,
+            girTypeName,
+        )
+        return typeName
+    }
+
+    /**
+     * Returns the branded number type of an integer type if the `brandedIntegers` option is set, e.g. `GLib.guint32`,
+     * or null if the number type should be used
+     * @param girTypeName
+     */
+    private getBrandedIntegerType(girTypeName: string): string | null {
+        if (!this.config.brandedIntegers || !INTEGER_TYPE_RANGES[girTypeName]) return null
+        if (this.name === 'GLib') return girTypeName
+        // The branded types are exported by GLib
+        if (!this.transitiveDependencies.includes('GLib-2.0')) return null
+        return `GLib.${girTypeName}`
+    }
+
+    /**
+     * Checks if a type is a container with element types, e.g. `GLib.List<utf8>` or `GLib.HashTable<utf8,gint>`
+     * @param type
+     */
+    private isContainerType(type?: GirType): boolean {
+        return !!type?.type?.length && /^GLib\.(S?List|HashTable)$/.test(type.$?.name)
+    }
+
+    /**
+     * Returns the type of the elements of a container, nested containers are resolved recursively
+     * @param girVar The variable of the container
+     * @param element The element type or array
+     * @param out
+     * @param received
+     */
+    private elementTypeLookup(
+        girVar: GirVariable,
+        element: { type?: GirType[]; array?: GirArray[] },
+        out: boolean,
+        received: boolean,
+    ): string {
+        // The variable attributes like `nullable` apply to the container, not to its elements
+        const elementVar: GirVariable = {
+            $: { name: girVar.$?.name },
+            _module: girVar._module,
+            _fullSymName: girVar._fullSymName,
+            ...(element.array?.length ? { array: element.array } : { type: element.type }),
+        }
+        const typeName = this.typeLookup(elementVar, out, received)
+        return /\||=>/.test(typeName) ? `(${typeName})` : typeName
+    }
+
+    /**
+     * @param girVar
+     * @param out
+     * @param received The value is passed to the application, so `any` is replaced with `unknown` if the `unknownOverAny` option is set,
+     * also in nested positions like the values of hash tables
+     */
+    private typeLookup(girVar: GirVariable, out = true, received = false): string {
         let type: GirType | null
         let arr: TypeArraySuffix = ''
         let arrCType: string | undefined
         let nul: TypeNullableSuffix = ''
 
+        if (girVar.$) {
+            const nullable = this.paramIsNullable(girVar)
+            if (nullable) {
+                nul = ' | null'
+            }
+        }
+
+        // GJS and node-gtk convert hash tables to objects, the keys become strings unless they are numbers
+        const hashTable = girVar.type?.[0]
+        if (hashTable?.type?.length === 2 && hashTable.$?.name === 'GLib.HashTable') {
+            const [keyType, valueType] = hashTable.type
+            const key = POD_TYPE_MAP[keyType.$?.name] === 'number' ? 'number' : 'string'
+            const value = this.elementTypeLookup(girVar, { type: [valueType] }, out, received)
+            return `{ [key: ${key}]: ${value} }${nul}`
+        }
+
         const collection = girVar.array
             ? girVar.array
             : girVar.type && /^GLib.S?List$/.test(girVar.type[0].$?.name)
@@ -273,8 +449,14 @@ export class GirModule {
             : undefined
 
         if (collection && collection.length > 0) {
+            // E.g. an array of string arrays or a list of hash tables
+            if (collection[0].array?.length || this.isContainerType(collection[0].type?.[0])) {
+                return `${this.elementTypeLookup(girVar, collection[0], out, received)}[]${nul}`
+            }
             const typeArray = collection[0].type
-            if (!typeArray || typeArray.length === 0) return 'any'
+            if (!typeArray || typeArray.length === 0) {
+                return this.getUntypedType(girVar, collection[0].$?.['c:type'] || 'array', received)
+            }
             if (collection[0].$) {
                 const ea = collection[0].$
                 arrCType = ea['c:type']
@@ -286,43 +468,49 @@ export class GirModule {
         } else if (girVar.callback?.length) {
             type = null
         } else {
-            return 'any'
-        }
-
-        if (girVar.$) {
-            const nullable = this.paramIsNullable(girVar)
-            if (nullable) {
-                nul = ' | null'
-            }
+            return this.getUntypedType(girVar, girVar.varargs ? 'varargs' : girVar.$?.['c:type'] || 'none', received)
         }
 
         const suffix: TypeSuffix = (arr + nul) as TypeSuffix
         let fullTypeName: string | null
 
         if (girVar.callback?.length) {
-            fullTypeName = this.getFunction(girVar.callback[0], '', '', undefined, true)[0][0]
-            if (suffix.length) fullTypeName = '(' + fullTypeName + ')'
+            fullTypeName = this.getInlineCallbackAlias(girVar)
+            if (!fullTypeName) {
+                fullTypeName = this.getFunction(girVar.callback[0], '', '', undefined, true, false, true)[0][0]
+                if (suffix.length) fullTypeName = '(' + fullTypeName + ')'
+            }
         } else {
-            if (!type?.$) return 'any'
+            if (!type?.$) return this.getUntypedType(girVar, girVar.$?.['c:type'] || 'none', received)
 
             if (arr) {
                 if (POD_TYPE_MAP_ARRAY(this.config.environment)[type.$.name]) {
-                    return POD_TYPE_MAP_ARRAY(this.config.environment)[type.$.name] + nul
+                    return this.checkAnyType(
+                        girVar,
+                        type.$.name,
+                        POD_TYPE_MAP_ARRAY(this.config.environment)[type.$.name] + nul,
+                        received,
+                    )
                 }
             }
 
+            const brandedType = this.getBrandedIntegerType(type.$.name)
+            if (brandedType) {
+                return brandedType + suffix
+            }
+
             if (POD_TYPE_MAP[type.$.name]) {
-                return POD_TYPE_MAP[type.$.name] + suffix
+                return this.checkAnyType(girVar, type.$.name, POD_TYPE_MAP[type.$.name] + suffix, received)
             }
 
-            if (!this.name) return 'any'
+            if (!this.name) return this.checkAnyType(girVar, type.$.name, 'any', received)
 
             let cType = type.$['c:type']
             if (!cType && arrCType) cType = arrCType
 
             if (cType) {
                 if (C_TYPE_MAP(this.packageName, suffix)[cType]) {
-                    return C_TYPE_MAP(this.packageName, suffix)[cType]
+                    return this.checkAnyType(girVar, cType, C_TYPE_MAP(this.packageName, suffix)[cType], received)
                 }
             }
 
@@ -330,7 +518,12 @@ export class GirModule {
 
             if (typeof fullTypeName === 'string') {
                 if (FULL_TYPE_MAP(this.config.environment, out)[fullTypeName]) {
-                    return FULL_TYPE_MAP(this.config.environment, out)[fullTypeName]
+                    return this.checkAnyType(
+                        girVar,
+                        fullTypeName,
+                        FULL_TYPE_MAP(this.config.environment, out)[fullTypeName],
+                        received,
+                    )
                 }
 
                 // Fully qualify our type name if need be
@@ -343,8 +536,14 @@ export class GirModule {
             }
 
             if (!fullTypeName || !this.symTable[fullTypeName]) {
-                this.log.warn(`Could not find type '${fullTypeName}' for '${girVar.$.name}'`)
-                return ('any' + arr) as 'any' | 'any[]'
+                this.addDiagnostic(
+                    'unresolved-type',
+                    `Could not find type '${fullTypeName}' for '${girVar.$.name || girVar._fullSymName}'`,
+                    girVar._fullSymName || girVar.$.name || null,
+                    'warn',
+                    fullTypeName,
+                )
+                return (this.config.unknownOverAny && received ? 'unknown' : 'any') + arr
             }
 
             if (fullTypeName.indexOf(this.name + '.') === 0) {
@@ -358,12 +557,44 @@ export class GirModule {
         return fullTypeName + suffix
     }
 
+    /**
+     * Returns the name of the type alias of a callback declared inline, e.g. `WidgetClassActivateFunc` for the field `Gtk.WidgetClass.activate`,
+     * and adds the alias to the exported callbacks of its module.
+     * Returns null if the variable has no symbol name, the name is already taken or the module of the callback has not exported the alias,
+     * then the callback stays an arrow function type
+     * @param girVar
+     */
+    private getInlineCallbackAlias(girVar: GirVariable): string | null {
+        const mod: GirModule = girVar._module || this
+        if (!girVar.callback?.length || !girVar._fullSymName?.startsWith(`${mod.name}.`)) return null
+
+        let name = girVar._fullSymName
+            .slice(mod.name.length + 1)
+            .split('.')
+            .map((part) => Utils.upperCamelCase(part))
+            .join('')
+        if (!/(Func|Callback)$/.test(name)) name += 'Func'
+        if (this.symTable[`${mod.name}.${name}`]) return null
+        // Callbacks of other modules are exported by their module, if it has already exported the alias
+        if (mod !== this) return mod.inlineCallbacks[name] ? `${mod.name}.${name}` : null
+
+        if (!this.inlineCallbacks[name]) {
+            const def = this.exportCallback(girVar.callback[0], name)
+            if (!def.length) return null
+            this.inlineCallbacks[name] = def
+        }
+        return name
+    }
+
     /**
      * E.g. replaces something like `NetworkManager.80211ApFlags` with `NetworkManager.TODO_80211ApFlags`
      * @param girVar
+     * @param out
+     * @param received The value is passed to the application, e.g. a return value or a callback argument,
+     * so `any` is replaced with `unknown` if the `unknownOverAny` option is set
      */
-    private typeLookupTransformed(girVar: GirVariable, out = true): string {
-        let names = this.typeLookup(girVar, out).split('.')
+    private typeLookupTransformed(girVar: GirVariable, out = true, received = out): string {
+        let names = this.typeLookup(girVar, out, received).split('.')
         names = names.map((name) => this.transformation.transformTypeName(name))
         return names.join('.')
     }
@@ -376,6 +607,172 @@ export class GirModule {
         return defaultVal
     }
 
+    /**
+     * Builds the lookup table for the C names of all known symbols, the table is loaded lazily
+     * because the symbol table is only complete after `loadTypes` has been called for all modules
+     */
+    private loadCSymTable(): { [cName: string]: string } {
+        if (this.cSymTable) return this.cSymTable
+
+        const cSymTable: { [cName: string]: string } = {}
+        const addFunctions = (parentName: string, funcs: GirFunction[] = []) => {
+            for (const func of funcs) {
+                const cIdentifier = func.$?.['c:identifier']
+                if (cIdentifier) {
+                    const funcName = this.transformation.transform('functionName', func.$.name)
+                    cSymTable[cIdentifier] = `${parentName}.${funcName}`
+                }
+            }
+        }
+
+        for (const symName of Object.keys(this.symTable)) {
+            const girConstruct = this.symTable[symName]
+            if (!girConstruct?.$) continue
+
+            const cType = (girConstruct.$ as { 'c:type'?: string })['c:type']
+            if (cType) cSymTable[cType] = symName
+
+            const girFunction = girConstruct as GirFunction
+            if (girFunction.$['c:identifier']) {
+                addFunctions(symName.substring(0, symName.lastIndexOf('.')), [girFunction])
+            }
+
+            const girClass = girConstruct as GirClass
+            if (Array.isArray(girClass.constructor)) addFunctions(symName, girClass.constructor)
+            addFunctions(symName, girClass.function)
+            addFunctions(symName, girClass.method)
+
+            for (const member of (girConstruct as GirEnumeration).member || []) {
+                if (member.$['c:identifier']) {
+                    const memberName = this.transformation.transform('enumValue', member.$.name)
+                    cSymTable[member.$['c:identifier']] = `${symName}.${memberName}`
+                }
+            }
+        }
+
+        this.cSymTable = cSymTable
+        return cSymTable
+    }
+
+    /**
+     * Returns a TSDoc `{@link}` for a C name like `GtkWidget` or `gtk_widget_show`
+     * or the fallback as inline code if the name could not be resolved
+     * @param cName
+     * @param fallback
+     * @param memberName E.g. the property name of a `#GtkWidget:visible` reference
+     */
+    private getTsDocLink(cName: string, fallback: string, memberName = ''): string {
+        let symName = this.loadCSymTable()[cName]
+        if (!symName) {
+            return `\`${fallback}\``
+        }
+        if (symName.indexOf(this.name + '.') === 0) {
+            symName = symName.substring(this.name.length + 1)
+        }
+        if (memberName) {
+            symName += `.${memberName}`
+        }
+        return `{@link ${symName}}`
+    }
+
+    /**
+     * Translates the gtk-doc markup used in the GIR documentation to TSDoc,
+     * e.g. `%NULL`, `#GtkWidget`, `gtk_widget_show()` and `@param` references
+     * @param text
+     */
+    public transformGirDocText(text: string): string {
+        // Code blocks (`|[ ... ]|`) and inline code are kept untouched
+        const segments = text.replace(/\*\//g, '*\\/').split(/(\|\[[\s\S]*?\]\||`[^`\n]*`)/)
+
+        return segments
+            .map((segment, i) => {
+                if (i % 2 === 1) {
+                    return segment.replace(/^\|\[(<!--.*?-->)?\n?/, '```\n').replace(/\n?\]\|$/, '\n```')
+                }
+                return segment
+                    .replace(/(^|[^\w])@([A-Za-z_]\w*)/g, (_, before: string, paramName: string) => {
+                        return `${before}\`${this.transformation.transform('parameterName', paramName)}\``
+                    })
+                    .replace(/%(NULL|TRUE|FALSE)\b/g, (_, constName: string) => `\`${constName.toLowerCase()}\``)
+                    .replace(/%([A-Z][A-Z0-9_]*)\b/g, (_, cName: string) => this.getTsDocLink(cName, cName))
+                    .replace(
+                        /#([A-Za-z_]\w*)(?:(::?)([\w-]+))?/g,
+                        (match, cName: string, sep?: string, member?: string) => {
+                            if (!member) return this.getTsDocLink(cName, cName)
+                            // Signals can't be linked, so we just link the class
+                            if (sep === '::') return `${this.getTsDocLink(cName, cName)}::${member}`
+                            const propertyName = this.transformation.transform('propertyName', member)
+                            return this.getTsDocLink(cName, match.substring(1), propertyName)
+                        },
+                    )
+                    .replace(/\b([a-z]\w*)\(\)/g, (_, cName: string) => this.getTsDocLink(cName, `${cName}()`))
+            })
+            .join('')
+    }
+
+    /**
+     * Returns the documentation text of a GIR element translated to TSDoc
+     * or an empty string if comments are disabled
+     * @param girInfo
+     */
+    private getTsDocText(
+        girInfo: GirClass | GirFunction | GirVariable | GirEnumeration | GirEnumerationMember,
+    ): string {
+        if (this.config.noComments || !girInfo.doc?.[0]?._) return ''
+        return this.transformGirDocText(girInfo.doc[0]._)
+    }
+
+    private getTsDocReturnTags(girFunc: GirFunction): TsDocTag[] {
+        const returnVal = girFunc['return-value'] ? girFunc['return-value'][0] : null
+        const text = returnVal ? this.getTsDocText(returnVal) : ''
+        if (!text) return []
+        return [{ tagName: 'returns', text }]
+    }
+
+    private getTsDocThrowsTags(girFunc: GirFunction): TsDocTag[] {
+        if (!this.girBool(girFunc.$.throws)) return []
+        const errorType = this.name === 'GLib' ? 'Error' : 'GLib.Error'
+        return [{ tagName: 'throws', text: `{${errorType}}` }]
+    }
+
+    /**
+     * Generates the TSDoc comment for a GIR element including the `@since` and `@deprecated` tags
+     * @param girInfo
+     * @param identCount
+     * @param tags Additional tags like `@param` or `@returns`
+     */
+    private getTsDocComment(
+        girInfo: GirClass | GirFunction | GirVariable | GirEnumeration | GirEnumerationMember,
+        identCount = 0,
+        tags: TsDocTag[] = [],
+    ): string[] {
+        if (this.config.noComments) return []
+
+        const description = this.getTsDocText(girInfo)
+        tags = [...tags]
+
+        if (this.girBool(girInfo.$.deprecated)) {
+            const deprecatedVersion = girInfo.$['deprecated-version']
+            const deprecatedDoc = girInfo['doc-deprecated']?.[0]?._
+            const text: string[] = []
+            if (deprecatedVersion) text.push(`since ${deprecatedVersion}`)
+            if (deprecatedDoc) text.push(this.transformGirDocText(deprecatedDoc))
+            tags.push({ tagName: 'deprecated', text: text.join(': ') })
+        }
+
+        if (girInfo.$.version) {
+            tags.push({ tagName: 'since', text: girInfo.$.version })
+        }
+
+        if (!description && !tags.length) return []
+
+        return TemplateProcessor.generateTSDocComment(description, tags, identCount)
+    }
+
+    private isTsDocLine(line: string): boolean {
+        return this.tsDocLineRegExp.test(line)
+    }
+
     private getReturnType(func: GirFunction): [string, number] {
         let returnType = 'void'
         let outArrayLengthIndex = -1
@@ -385,6 +782,9 @@ export class GirModule {
             returnType = this.typeLookupTransformed(returnVal, true)
             outArrayLengthIndex =
                 returnVal.array && returnVal.array[0].$?.length ? Number(returnVal.array[0].$.length) : -1
+            if (this.getPatch(func)?.nullable && !returnType.endsWith(' | null')) {
+                returnType += ' | null'
+            }
         }
 
         return [returnType, outArrayLengthIndex] as [string, number]
@@ -439,12 +839,42 @@ export class GirModule {
      */
     private paramIsNullable(param: GirVariable): boolean {
         const a = param.$
-        return a && (this.girBool(a.nullable) || this.girBool(a['allow-none']) || this.girBool(a.optional))
+        return (
+            a &&
+            (this.girBool(a.nullable) ||
+                this.girBool(a['allow-none']) ||
+                this.girBool(a.optional) ||
+                !!this.getPatch(param)?.nullable)
+        )
+    }
+
+    /**
+     * Returns the type of an out or inout parameter as returned value.
+     * Structs allocated by the caller are never null, other values keep their nullability
+     * @param param
+     */
+    private getOutParamType(param: GirVariable): string {
+        const outParam: GirVariable = this.girBool(param.$['caller-allocates'])
+            ? { ...param, $: { ...param.$, optional: undefined, 'allow-none': undefined, nullable: undefined } }
+            : param
+        return this.typeLookupTransformed(outParam, true, true)
     }
 
-    private getParameters(outArrayLengthIndex: number, parameters?: GirParameter[]): [string, string[]] {
+    /**
+     * @param outArrayLengthIndex
+     * @param parameters
+     * @param skipAsyncCallback Skips the `scope="async"` callback, used for the promise overloads of async functions
+     * @param callback The parameters of a callback or signal, which are passed to the application
+     */
+    private getParameters(
+        outArrayLengthIndex: number,
+        parameters?: GirParameter[],
+        skipAsyncCallback = false,
+        callback = false,
+    ): [string, [string, string][], TsDocTag[]] {
         const def: string[] = []
-        const outParams: string[] = []
+        const outParams: [string, string][] = []
+        const paramTags: TsDocTag[] = []
 
         if (parameters && parameters.length > 0) {
             const parametersArray = parameters[0].parameter || []
@@ -467,6 +897,10 @@ export class GirModule {
                 this.processParams(parametersArray, skip, this.closureDataIndexLookup)
                 this.processParams(parametersArray, skip, this.destroyDataIndexLookup)
 
+                if (skipAsyncCallback) {
+                    skip.push(...parametersArray.filter((param) => param.$.scope === 'async'))
+                }
+
                 for (const param of parametersArray as GirVariable[]) {
                     if (skip.indexOf(param) !== -1) {
                         continue
@@ -474,15 +908,16 @@ export class GirModule {
                     const paramName = this.transformation.transformParameterName(param.$.name || '-', false)
                     const optDirection = param.$.direction
                     const out = optDirection === 'out' || optDirection == 'inout'
-                    // I think it's safest to force inout params to have the
-                    // same type for in and out
-                    const paramType = this.typeLookupTransformed(param, out)
 
+                    // Out params are returned instead of passed, also the ones allocated by the caller,
+                    // inout params are passed and returned
                     if (out) {
-                        outParams.push(`/* ${paramName} */ ${paramType}`)
+                        outParams.push([paramName, this.getOutParamType(param)])
                         if (optDirection == 'out') continue
                     }
 
+                    const paramType = this.typeLookupTransformed(param, false, callback)
+
                     let isOptional = this.paramIsNullable(param) ? '?' : ''
 
                     if (isOptional === '?') {
@@ -499,11 +934,14 @@ export class GirModule {
 
                     const paramDesc = `${paramName}${isOptional}: ${paramType}`
                     def.push(paramDesc)
+
+                    const paramDoc = this.getTsDocText(param)
+                    if (paramDoc) paramTags.push({ tagName: 'param', paramName, text: paramDoc })
                 }
             }
         }
 
-        return [def.join(', '), outParams]
+        return [def.join(', '), outParams, paramTags]
     }
 
     private getVariable(
@@ -514,6 +952,7 @@ export class GirModule {
     ): FunctionDescription {
         if (!v.$.name) return [[], null]
         if (!v || !v.$ || !this.girBool(v.$.introspectable, true) || this.girBool(v.$.private)) return [[], null]
+        if (this.getPatch(v)?.remove) return [[], null]
 
         let name = v.$.name
 
@@ -538,13 +977,41 @@ export class GirModule {
         return [[`${name}${nameSuffix}: ${typeName}`], name]
     }
 
+    /**
+     * Returns the property in the naming convention of the other environment if the `propertyAliases` option is set
+     * @param v
+     * @param propPrefix
+     * @param propDesc
+     * @param propName
+     */
+    private getPropertyAlias(v: GirVariable, propPrefix: string, propDesc: string, propName: string): string[] {
+        if (this.config.propertyAliases === 'none' || !v.$.name) return []
+        const aliasName = this.transformation.transformPropertyNameAlias(v.$.name, true)
+        if (!aliasName) return []
+
+        const tag: TsDocTag =
+            this.config.propertyAliases === 'deprecated'
+                ? { tagName: 'deprecated', text: `Use \`${propName}\` instead` }
+                : { tagName: 'alias', text: propName }
+        const tsDocComment = this.config.noComments
+            ? []
+            : TemplateProcessor.generateTSDocComment(`Alias of \`${propName}\``, [tag], 1)
+        return [...tsDocComment, `    ${propPrefix}${aliasName}${propDesc.slice(propName.length)}`]
+    }
+
     /**
      *
      * @param v
      * @param construct construct means include the property even if it's construct-only,
      * @param optional optional means if it's construct-only it will also be marked optional (?)
+     * @param withAlias include the alias in the naming convention of the other environment if the `propertyAliases` option is set
      */
-    private getProperty(v: GirVariable, construct = false, optional = true): [string[], string | null, string | null] {
+    private getProperty(
+        v: GirVariable,
+        construct = false,
+        optional = true,
+        withAlias = true,
+    ): [string[], string | null, string | null] {
         if (this.girBool(v.$['construct-only']) && !construct) return [[], null, null]
         if (!this.girBool(v.$.writable) && construct) return [[], null, null]
         if (this.girBool(v.$.private)) return [[], null, null]
@@ -560,7 +1027,28 @@ export class GirModule {
             origName = this.transformation.transformTypeName(v.$.name)
         }
 
-        return [[`    ${propPrefix}${propDesc}`], propName, origName]
+        const alias = withAlias ? this.getPropertyAlias(v, propPrefix, propDesc[0], propName) : []
+
+        return [[...this.getTsDocComment(v, 1), `    ${propPrefix}${propDesc}`, ...alias], propName, origName]
+    }
+
+    /**
+     * Returns the patch of a function, property, field, constant or parameter
+     * @param girConstruct
+     */
+    private getPatch(girConstruct: GirConstruct): PatchMember | undefined {
+        if (!girConstruct._fullSymName) return undefined
+        return this.patches.members?.[girConstruct._fullSymName]
+    }
+
+    /**
+     * Returns the members added to a class, interface or record by patches
+     * @param girClass
+     */
+    private getAddedMembers(girClass: GirClass): string[] {
+        const members = girClass._fullSymName ? this.patches.add?.[girClass._fullSymName] : undefined
+        if (!members?.length) return []
+        return ['    /* Added by patches */', ...members.map((member) => `    ${member}`)]
     }
 
     private getFunction(
@@ -570,15 +1058,16 @@ export class GirModule {
         overrideReturnType?: string,
         arrowType = false,
         colon = false,
+        callback = false,
     ): FunctionDescription {
         if (!e || !e.$ || !this.girBool(e.$.introspectable, true) || e.$['shadowed-by']) return [[], null]
 
-        const patch = e._fullSymName ? this.patch[e._fullSymName] : []
+        const patch = this.getPatch(e)
         let name = e.$.name
         // eslint-disable-next-line prefer-const
         let [retType, outArrayLengthIndex] = this.getReturnType(e)
 
-        const [params, outParams] = this.getParameters(outArrayLengthIndex, e.parameters)
+        const [params, outParams, paramTags] = this.getParameters(outArrayLengthIndex, e.parameters, false, callback)
 
         if (e.$['shadows']) {
             name = e.$['shadows']
@@ -586,26 +1075,38 @@ export class GirModule {
 
         if (funcNamePrefix) name = funcNamePrefix + name
 
-        if (patch && patch.length === 1) return [patch, null]
+        // The comment of a removed member is kept in its place, e.g. to explain the clash it avoids
+        if (patch?.remove) return [patch.comment ? [`${prefix.match(/^\s*/)?.[0]}/* ${patch.comment} */`] : [], null]
 
         // Function name transformation by environment
         name = this.transformation.transformFunctionName(name)
 
-        if (patch && patch.length === 2) return [[`${prefix}${funcNamePrefix}${patch[patch.length - 1]}`], name]
-
-        const retTypeIsVoid = retType === 'void'
+        if (patch?.signature) {
+            const patchComment = patch.comment ? [`${prefix.match(/^\s*/)?.[0]}/* ${patch.comment} */`] : []
+            return [[...patchComment, `${prefix}${funcNamePrefix}${patch.signature}`], name]
+        }
 
         if (overrideReturnType) {
             retType = overrideReturnType
-        } else if (outParams.length + (retTypeIsVoid ? 0 : 1) > 1) {
-            if (!retTypeIsVoid) {
-                outParams.unshift(`/* returnType */ ${retType}`)
-            }
-            const retDesc = outParams.join(', ')
-            retType = `[ ${retDesc} ]`
-        } else if (outParams.length === 1 && retTypeIsVoid) {
-            retType = outParams[0]
+        } else {
+            retType = this.packReturnType(retType, outParams)
         }
+
+        // Inline callback types are not documented, the indentation of the comment is taken from the prefix
+        const identCount = Math.floor(prefix.search(/\S|$/) / 4)
+        const tsDocComment =
+            arrowType && !colon
+                ? []
+                : this.getTsDocComment(e, identCount, [
+                      ...paramTags,
+                      ...this.getTsDocReturnTags(e),
+                      ...this.getTsDocThrowsTags(e),
+                  ])
+
+        // Virtual methods are implemented by the user and can't be promisified
+        const promiseOverload =
+            arrowType || funcNamePrefix ? [] : this.getPromiseOverload(e, prefix, name, outArrayLengthIndex, identCount)
+
         let retSep: string
         if (arrowType) {
             retSep = ' =>'
@@ -620,7 +1121,96 @@ export class GirModule {
             name += ': '
         }
 
-        return [[`${prefix}${name}(${params})${retSep} ${retType}`], name]
+        return [[...promiseOverload, ...tsDocComment, `${prefix}${name}(${params})${retSep} ${retType}`], name]
+    }
+
+    /**
+     * Packs the return value and the out parameters of a function into a labelled tuple if there is more than one value to return,
+     * e.g. `[returnType: boolean, iter: Gtk.TreeIter]`
+     * @param retType
+     * @param outParams The names and types of the out parameters
+     */
+    private packReturnType(retType: string, outParams: [string, string][]): string {
+        const retTypeIsVoid = retType === 'void'
+
+        if (outParams.length + (retTypeIsVoid ? 0 : 1) > 1) {
+            if (!retTypeIsVoid) {
+                outParams = [['returnType', retType], ...outParams]
+            }
+            const labels: string[] = []
+            const retDesc = outParams
+                .map(([name, type]) => {
+                    // The labels of a tuple can't be spread like the varargs `...args`
+                    // and should be unique, e.g. an out param could be called `returnType` as well
+                    let label = name.replace(/^\.\.\./, '')
+                    while (labels.includes(label)) label += '_'
+                    labels.push(label)
+                    return `${label}: ${type}`
+                })
+                .join(', ')
+            return `[${retDesc}]`
+        }
+        if (outParams.length === 1 && retTypeIsVoid) {
+            return outParams[0][1]
+        }
+        return retType
+    }
+
+    /**
+     * Finds the `_finish` function for an async function like `read_async` with a `scope="async"` callback parameter
+     * @param girFunc
+     */
+    private getAsyncFinishFunction(girFunc: GirFunction): GirFunction | null {
+        const parametersArray = girFunc.parameters?.[0].parameter || []
+        if (!girFunc._fullSymName || !parametersArray.some((param) => param.$.scope === 'async')) return null
+
+        // The finish function is a sibling of the async function, so it is a member of the same class or namespace
+        const parentName = girFunc._fullSymName.substring(0, girFunc._fullSymName.lastIndexOf('.'))
+        const parent = this.symTable[parentName] as GirClass | null | undefined
+        let siblings: GirFunction[]
+        if (parent) {
+            siblings = (parent.method || []).concat(parent.function || [])
+        } else {
+            siblings = (girFunc._module || this).ns.function || []
+        }
+
+        const finishName = girFunc.$.name.replace(/_async$/, '') + '_finish'
+        return siblings.find((sibling) => sibling.$.name === finishName) || null
+    }
+
+    /**
+     * Generates an overload without the callback that returns a `Promise` of the result of the `_finish` function,
+     * this matches functions wrapped by `Gio._promisify` in gjs
+     * @param girFunc
+     * @param prefix
+     * @param name The already transformed function name
+     * @param outArrayLengthIndex
+     * @param identCount
+     */
+    private getPromiseOverload(
+        girFunc: GirFunction,
+        prefix: string,
+        name: string,
+        outArrayLengthIndex: number,
+        identCount: number,
+    ): string[] {
+        if (!this.config.promisify) return []
+
+        const finishFunc = this.getAsyncFinishFunction(girFunc)
+        if (!finishFunc) return []
+
+        const [params, , paramTags] = this.getParameters(outArrayLengthIndex, girFunc.parameters, true)
+        const [finishRetType, finishOutArrayLengthIndex] = this.getReturnType(finishFunc)
+        const [, finishOutParams] = this.getParameters(finishOutArrayLengthIndex, finishFunc.parameters)
+        const retType = this.packReturnType(finishRetType, finishOutParams)
+
+        const tsDocComment = this.getTsDocComment(girFunc, identCount, [
+            ...paramTags,
+            ...this.getTsDocReturnTags(finishFunc),
+            ...this.getTsDocThrowsTags(finishFunc),
+        ])
+
+        return [...tsDocComment, `${prefix}${name}(${params}): Promise<${retType}>`]
     }
 
     private getConstructorFunction(
@@ -640,8 +1230,13 @@ export class GirModule {
     private getSignalFunc(e: GirFunction, clsName: string): string[] {
         const sigName = this.transformation.transform('signalName', e.$.name)
         const [retType, outArrayLengthIndex] = this.getReturnType(e)
-        const [params] = this.getParameters(outArrayLengthIndex, e.parameters)
+        const [params, , paramTags] = this.getParameters(outArrayLengthIndex, e.parameters, false, true)
         const paramComma = params.length > 0 ? ', ' : ''
+        const tsDocComment = this.getTsDocComment(e, 1, [
+            ...paramTags,
+            ...this.getTsDocReturnTags(e),
+            ...this.getTsDocSignalRemarksTags(e, retType),
+        ])
 
         return TemplateProcessor.generateSignalMethods(
             this.config.environment,
@@ -650,9 +1245,53 @@ export class GirModule {
             paramComma,
             params,
             retType,
+            1,
+            tsDocComment,
+            // The details of `notify` are the property names, which have their own overload
+            this.girBool(e.$.detailed) && e.$.name !== 'notify',
         )
     }
 
+    /**
+     * Notes on the emission stage of the default handler and on stopping the emission with boolean return values
+     * @param e
+     * @param retType
+     */
+    private getTsDocSignalRemarksTags(e: GirFunction, retType: string): TsDocTag[] {
+        const remarks: string[] = []
+        switch (e.$.when) {
+            case 'first':
+                remarks.push('The default handler runs before the handlers connected with `connect()`.')
+                break
+            case 'last':
+                remarks.push(
+                    'The default handler runs after the handlers connected with `connect()` and before the handlers connected with `connect_after()`.',
+                )
+                break
+            case 'cleanup':
+                remarks.push('The default handler runs after all connected handlers.')
+                break
+        }
+        if (retType === 'boolean') {
+            remarks.push(
+                'If the signal uses a boolean accumulator like `g_signal_accumulator_true_handled()`, returning `true` stops the emission and the remaining handlers are not invoked.',
+            )
+        }
+        if (!remarks.length) return []
+        return [{ tagName: 'remarks', text: remarks.join('\n') }]
+    }
+
+    /**
+     * Returns the entry of a signal in the `SignalSignatures` interface, the tuple of the arguments its callbacks receive after the object
+     * @param e
+     */
+    private getSignalSignature(e: GirFunction): string {
+        const sigName = this.transformation.transform('signalName', e.$.name)
+        const [, outArrayLengthIndex] = this.getReturnType(e)
+        const [params] = this.getParameters(outArrayLengthIndex, e.parameters, false, true)
+        return `        "${sigName}": [${params}]`
+    }
+
     private traverseInheritanceTree(
         girClass: GirClass,
         callback: (girClass: GirClass) => void,
@@ -685,7 +1324,11 @@ export class GirModule {
                 if (parentName.indexOf('.') < 0 && parentPtr._module?.name)
                     parentName = parentPtr._module.name + '.' + parentName
                 if (parentName === girClass._fullSymName) {
-                    this.log.warn(`Circular dependency found! Ignore next parent "${parentName}".`)
+                    this.addDiagnostic(
+                        'circular-inheritance',
+                        `Circular dependency found! Ignore next parent "${parentName}".`,
+                        girClass._fullSymName || null,
+                    )
                     recursive = false
                 }
             }
@@ -771,8 +1414,8 @@ export class GirModule {
         if (!desc || desc.length === 0) return [[], false]
 
         if (!name) {
-            // this.log.error(`No name for ${desc}`)
-            return [[], false]
+            // E.g. the comment of a member removed by a patch
+            return [desc, false]
         }
 
         if (localNames[name]) {
@@ -792,7 +1435,7 @@ export class GirModule {
 
                 const [aDesc, added] = this.checkName(desc, name, localNames)
                 if (added) {
-                    def.push(`    ${aDesc[0]}`)
+                    def.push(...this.getTsDocComment(f, 1), `    ${aDesc[0]}`)
                 }
             }
         }
@@ -1003,22 +1646,29 @@ export class GirModule {
             parentName = girClass.$.parent
         }
 
-        let parentModName: string
         if (parentName) {
-            if (parentName.indexOf('.') < 0) {
-                qualifiedParentName = mod.name + '.' + parentName
-                parentModName = mod.name
-            } else {
-                qualifiedParentName = parentName
-                const split = parentName.split('.')
-                parentName = split[split.length - 1]
-                parentModName = split.slice(0, split.length - 1).join('.')
-            }
-            localParentName = parentModName == mod.name ? parentName : qualifiedParentName
+            ;[qualifiedParentName, localParentName] = this.getQualifiedAndLocalName(girClass, parentName)
+            const split = qualifiedParentName.split('.')
+            parentName = split[split.length - 1]
         }
         return { name, qualifiedName, parentName, qualifiedParentName, localParentName }
     }
 
+    /**
+     * Returns the qualified name of a class referenced by a class, e.g. its parent, and the name to use in the module of the class
+     * @param girClass
+     * @param name E.g. `Widget` or `Gtk.Widget`
+     */
+    private getQualifiedAndLocalName(girClass: GirClass, name: string): [string, string] {
+        const mod: GirModule = girClass._module ? girClass._module : this
+        if (name.indexOf('.') < 0) {
+            return [mod.name + '.' + name, name]
+        }
+        const split = name.split('.')
+        const modName = split.slice(0, split.length - 1).join('.')
+        return [name, modName == mod.name ? split[split.length - 1] : name]
+    }
+
     /**
      * Returns true if the function definitions in f1 and f2 have equivalent signatures
      * @param f1
@@ -1031,6 +1681,9 @@ export class GirModule {
         if (!Array.isArray(f2)) {
             f2 = [f2]
         }
+        // Documentation comments are not part of the signature
+        f1 = f1.filter((line) => !this.isTsDocLine(line))
+        f2 = f2.filter((line) => !this.isTsDocLine(line))
         if (f1.length != f2.length) return false
         for (let i = 0; i < f1.length; ++i) {
             if (this.stripParamNames(f1[i]) != this.stripParamNames(f2[i])) return false
@@ -1053,16 +1706,14 @@ export class GirModule {
         if (isDerivedFromGObject) {
             let prefix = 'GObject.'
             if (this.name === 'GObject') prefix = ''
-            for (const prop of propertyNames) {
-                def.push(
-                    ...TemplateProcessor.generateGObjectSignalMethods(
-                        this.config.environment,
-                        prop,
-                        callbackObjectName,
-                        prefix,
-                    ),
-                )
-            }
+            def.push(
+                ...TemplateProcessor.generateGObjectSignalMethods(
+                    this.config.environment,
+                    propertyNames,
+                    callbackObjectName,
+                    prefix,
+                ),
+            )
             def.push(...TemplateProcessor.generateGeneralSignalMethods(this.config.environment))
         }
         return def
@@ -1167,6 +1818,89 @@ export class GirModule {
         return def
     }
 
+    private hasTypeMaps(girClass: GirClass): boolean {
+        return this.isDerivedFromGObject(girClass) || this.isGInterface(girClass)
+    }
+
+    /**
+     * Generates the `SignalSignatures` and `Properties` interfaces of a class, e.g. `Button.SignalSignatures`,
+     * which extend the interfaces of the parent class without the redeclared members
+     * and include the signals and properties of the implemented interfaces.
+     * The interfaces of a GInterface extend those of all its prerequisites
+     * @param girClass
+     * @param name
+     * @param qualifiedParentName
+     * @param localParentName
+     */
+    private generateTypeMapsNamespace(
+        girClass: GirClass,
+        name: string,
+        qualifiedParentName?: string,
+        localParentName?: string,
+    ): string[] {
+        if (!this.hasTypeMaps(girClass)) return []
+
+        const signals: string[] = []
+        const properties: string[] = []
+        const sigNames: LocalNames = {}
+        const propNames: LocalNames = {}
+        const sigKeys: string[] = []
+        const propKeys: string[] = []
+        const forEachClass = (callback: (cls: GirClass) => void) =>
+            girClass.prerequisite ? callback(girClass) : this.forEachInterfaceAndSelf(girClass, callback)
+        forEachClass((cls) => {
+            for (const s of cls['glib:signal'] || []) {
+                if (!s.$ || sigNames[s.$.name]) continue
+                sigNames[s.$.name] = true
+                sigKeys.push(this.transformation.transform('signalName', s.$.name))
+                signals.push(this.getSignalSignature(s))
+            }
+            for (const p of cls.property || []) {
+                const [desc, propName] = this.getProperty(p, false, true, false)
+                const [aDesc, added] = this.checkName(desc, propName, propNames)
+                if (added && propName) propKeys.push(propName.replace(/^"|"$/g, ''))
+                properties.push(...aDesc.filter((line) => !this.isTsDocLine(line)).map((line) => `    ${line}`))
+            }
+        })
+
+        const parentNames: [string, string][] = girClass.prerequisite
+            ? girClass.prerequisite
+                  .filter((prerequisite) => prerequisite.$.name)
+                  .map((prerequisite) => this.getQualifiedAndLocalName(girClass, prerequisite.$.name as string))
+            : qualifiedParentName && localParentName
+            ? [[qualifiedParentName, localParentName]]
+            : []
+        const parents = parentNames
+            .filter(([qualifiedName]) => {
+                const parent = this.symTable[qualifiedName] as GirClass | undefined
+                return parent?.$ && this.hasTypeMaps(parent)
+            })
+            .map(([, localName]) => localName)
+
+        // The own signals and properties replace those of the parent instead of extending them,
+        // a subclass may redeclare a property with another type
+        const ext = (typeMap: string, keys: string[]) =>
+            parents.length
+                ? ` extends ${parents
+                      .map((parent) =>
+                          keys.length
+                              ? `Omit<${parent}.${typeMap}, ${keys.map((key) => `'${key}'`).join(' | ')}>`
+                              : `${parent}.${typeMap}`,
+                      )
+                      .join(', ')}`
+                : ''
+        return [
+            `export namespace ${name} {`,
+            `    export interface SignalSignatures${ext('SignalSignatures', sigKeys)} {`,
+            ...signals,
+            '    }',
+            `    export interface Properties${ext('Properties', propKeys)} {`,
+            ...properties,
+            '    }',
+            '}',
+        ]
+    }
+
     public exportEnumeration(e: GirEnumeration): string[] {
         const def: string[] = []
 
@@ -1176,7 +1910,7 @@ export class GirModule {
         // E.g. the NetworkManager-1.0 has enum names starting with 80211
         name = this.transformation.transformEnumName(name)
 
-        def.push(`export enum ${name} {`)
+        def.push(...this.getTsDocComment(e), `export enum ${name} {`)
         if (e.member) {
             for (const member of e.member) {
                 const _name = member.$.name || member.$['glib:nick'] || member.$['c:identifier']
@@ -1185,21 +1919,102 @@ export class GirModule {
                 }
                 const name = this.transformation.transform('enumValue', _name)
                 if (/\d/.test(name[0])) def.push(`    /* ${name} (invalid, starts with a number) */`)
-                else def.push(`    ${name},`)
+                else def.push(...this.getTsDocComment(member, 1), `    ${name},`)
             }
         }
         def.push('}')
         return def
     }
 
+    /**
+     * Returns the error domain class of an enumeration, named after the domain without the C symbol prefix of the namespace,
+     * e.g. `IoError` for `g-io-error-quark` in Gio.
+     * Error domains are only generated for GJS, where the error enumeration is also the class of the errors.
+     * No class is needed if the enumeration already has the name of the class, e.g. `Gtk.BuilderError`.
+     * @param e
+     */
+    private getErrorDomain(e: GirEnumeration): { className: string; enumName: string } | null {
+        const domain = e?.$?.['glib:error-domain']
+        if (!domain || this.config.environment !== 'gjs' || !this.girBool(e.$.introspectable, true)) return null
+
+        let name = domain.replace(/-quark$/, '')
+        const prefixes = (this.ns.$['c:symbol-prefixes'] || '')
+            .split(',')
+            .map((prefix) => prefix.trim().replace(/_/g, '-'))
+            .filter((prefix) => prefix && name.startsWith(`${prefix}-`))
+            .sort((a, b) => b.length - a.length)
+        if (prefixes.length) name = name.slice(prefixes[0].length + 1)
+
+        let className = Utils.upperCamelCase(name)
+        if (!className.endsWith('Error')) className += 'Error'
+        const enumName = this.transformation.transformEnumName(e.$.name)
+        if (className === enumName) return null
+
+        if (this.symTable[`${this.name}.${className}`]) {
+            this.addDiagnostic(
+                'error-domain-conflict',
+                `The error domain class '${className}' conflicts with an existing symbol`,
+                `${this.name}.${className}`,
+            )
+            return null
+        }
+        return { className, enumName }
+    }
+
+    private getErrorDomains(): { className: string; enumName: string }[] {
+        const errorDomains: { className: string; enumName: string }[] = []
+        if (this.ns.enumeration) {
+            for (const e of this.ns.enumeration) {
+                const errorDomain = this.getErrorDomain(e)
+                if (errorDomain) errorDomains.push(errorDomain)
+            }
+        }
+        return errorDomains
+    }
+
+    public exportErrorDomain(e: GirEnumeration): string[] {
+        const errorDomain = this.getErrorDomain(e)
+        if (!errorDomain) return []
+
+        const { className, enumName } = errorDomain
+        const errorType = this.name === 'GLib' ? 'Error' : 'GLib.Error'
+        const def: string[] = []
+
+        if (!this.config.noComments) {
+            def.push(
+                ...TemplateProcessor.generateTSDocComment(
+                    `Error of the \`${e.$['glib:error-domain']}\` domain with the codes of {@link ${enumName}}.\n` +
+                        (this.config.buildType === 'lib'
+                            ? `At runtime this class is an alias of {@link ${enumName}}, the class of these errors.`
+                            : `Only a type, at runtime the class of these errors is {@link ${enumName}}.`),
+                ),
+            )
+        }
+        if (this.config.buildType === 'lib') {
+            def.push(
+                `export class ${className} extends ${errorType} {`,
+                `    constructor(options: { message: string, code: ${enumName} })`,
+                `    code: ${enumName}`,
+                '}',
+            )
+        } else {
+            def.push(`export interface ${className} extends ${errorType} {`, `    code: ${enumName}`, '}')
+        }
+        return def
+    }
+
     public exportConstant(girVar: GirVariable): string[] {
         const [varDesc, varName] = this.getVariable(girVar, false, false, 'constant')
         if (varName) {
             if (!this.constNames[varName]) {
                 this.constNames[varName] = 1
-                return [`export const ${varDesc}`]
+                return [...this.getTsDocComment(girVar), `export const ${varDesc}`]
             } else {
-                this.log.warn(`The constant '${varDesc}' has already been exported`)
+                this.addDiagnostic(
+                    'duplicate-constant',
+                    `The constant '${varDesc}' has already been exported`,
+                    `${this.name}.${varName}`,
+                )
             }
         }
         return []
@@ -1263,7 +2078,10 @@ export class GirModule {
 
         // Define each method and overload it if necessary to avoid clashes
         for (const meth of methods) {
-            if (!meth[1]) continue
+            if (!meth[1]) {
+                defs.push(...meth[0])
+                continue
+            }
             if (Object.prototype.hasOwnProperty.call(propertyNames, meth[1])) {
                 defs.push(`    /* Skipping ${meth[1]} because it clashes with an inherited property */`)
                 continue
@@ -1274,6 +2092,12 @@ export class GirModule {
             if (!clashes) continue
             for (const [cls, defns] of clashes) {
                 if (!this.functionSignaturesMatch(meth[0], defns)) {
+                    this.addDiagnostic(
+                        'false-overload',
+                        `The method '${meth[1]}' clashes with '${cls}.${meth[1]}'`,
+                        `${girClass._fullSymName}.${meth[1]}`,
+                        null,
+                    )
                     defs.push(`    /* False overload, use ${cls}.prototype.${meth[1]}.call() */`)
                     defs.push(...defns)
                 }
@@ -1294,8 +2118,15 @@ export class GirModule {
             // Here key is name-stripped defn, val is full defn and class name
             const subDefs: Map<string, [string, string]> = new Map()
             for (const [clsName, defs] of defns) {
+                // Keep the documentation comment together with the definition it belongs to
+                let tsDocComment: string[] = []
                 for (const d of defs) {
-                    subDefs.set(this.stripParamNames(d), [d, clsName])
+                    if (this.isTsDocLine(d)) {
+                        tsDocComment.push(d)
+                        continue
+                    }
+                    subDefs.set(this.stripParamNames(d), [[...tsDocComment, d].join('\n'), clsName])
+                    tsDocComment = []
                 }
             }
             if (subDefs.size < 2 && !sigClash) {
@@ -1306,6 +2137,12 @@ export class GirModule {
                 if (vfunc) {
                     defs.push(`    /* Clashing method inherited from ${clsName}, do not override */`)
                 } else {
+                    this.addDiagnostic(
+                        'false-overload',
+                        `The method '${fName}' clashes with '${clsName}.${fName}'`,
+                        `${girClass._fullSymName}.${fName}`,
+                        null,
+                    )
                     defs.push(`    /* False overload, use ${clsName}.prototype.${fName}.call() */`)
                 }
                 defs.push(defn)
@@ -1344,6 +2181,8 @@ export class GirModule {
         // which is just what we want
         const asInterface = this.config.inheritance && !record && !isAbstract
 
+        def.push(...this.getTsDocComment(girClass))
+
         // START CLASS
         if (isAbstract) {
             def.push(`export abstract class ${name} {`)
@@ -1429,9 +2268,21 @@ export class GirModule {
             // Copy signals from implemented interfaces
             this.forEachInterface(girClass, (cls) => def.push(...this.processSignals(cls, name)))
         }
+        // Members added by patches
+        def.push(...this.getAddedMembers(girClass))
+
         // "notify" signals for properties
         def.push(...this.generateSignalMethods(girClass, propertyNames, name))
 
+        // Type maps for generic typing, e.g. `Button['$props']`
+        if (this.hasTypeMaps(girClass)) {
+            def.push(
+                "    /* Type-only members for generic typing, they don't exist at runtime */",
+                `    readonly $signals: ${name}.SignalSignatures`,
+                `    readonly $props: ${name}.Properties`,
+            )
+        }
+
         // If we've just created an interface we need a constructor to go with
         // it. The constructor is defined as an object with an anonymous
         // interface without inheritance, which solves the problem of static
@@ -1448,6 +2299,8 @@ export class GirModule {
         // END CLASS
         def.push('}')
 
+        def.push(...this.generateTypeMapsNamespace(girClass, name, qualifiedParentName, localParentName))
+
         return def
     }
 
@@ -1455,17 +2308,23 @@ export class GirModule {
         return this.getFunction(e, 'export function ')[0]
     }
 
-    public exportCallback(e: GirFunction): string[] {
+    /**
+     * Exports a callback as callable type alias, e.g. `type AsyncReadyCallback = (source_object: GObject.Object | null, res: AsyncResult) => void`,
+     * the parameters of functions reference it by name. The `user_data` closure parameter is removed, GJS and node-gtk bind it themselves
+     * @param e
+     * @param name The name of the alias, e.g. of a callback declared inline
+     */
+    public exportCallback(e: GirFunction, name = e?.$?.name): string[] {
         if (!e || !e.$ || !this.girBool(e.$.introspectable, true)) return []
 
-        const name = e.$.name
         const [retType, outArrayLengthIndex] = this.getReturnType(e)
-        const [params] = this.getParameters(outArrayLengthIndex, e.parameters)
+        const [params, , paramTags] = this.getParameters(outArrayLengthIndex, e.parameters, false, true)
 
         const def: string[] = []
-        def.push(`export interface ${name} {`)
-        def.push(`    (${params}): ${retType}`)
-        def.push('}')
+        def.push(
+            ...this.getTsDocComment(e, 0, [...paramTags, ...this.getTsDocReturnTags(e), ...this.getTsDocThrowsTags(e)]),
+        )
+        def.push(`export type ${name} = (${params}) => ${retType}`)
         return def
     }
 
@@ -1477,6 +2336,31 @@ export class GirModule {
         return [`type ${name} = ${typeName}`]
     }
 
+    /**
+     * Exports the branded number types of the integer types, e.g. `type guint32 = number & { __brand?: 'guint32' }`.
+     * The brand is optional, so numbers can be assigned to the branded types and the other way around
+     */
+    public exportBrandedIntegerTypes(): string[] {
+        const def: string[] = []
+        for (const girTypeName of Object.keys(INTEGER_TYPE_RANGES)) {
+            const [min, max] = INTEGER_TYPE_RANGES[girTypeName]
+            const bigint = this.config.environment === 'node' && BIGINT_TYPES.includes(girTypeName)
+            let description = `Integer from ${min} to ${max}`
+            if (bigint) {
+                description += ', values outside of the safe integer range are returned as `bigint`'
+            } else if (max.length > 15) {
+                description += ', values outside of the safe integer range lose precision'
+            }
+            if (!this.config.noComments) def.push(...TemplateProcessor.generateTSDocComment(description))
+            def.push(
+                `export type ${girTypeName} = ${
+                    bigint ? '(number | bigint)' : 'number'
+                } & { __brand?: '${girTypeName}' }`,
+            )
+        }
+        return def
+    }
+
     public exportInterface(girClass: GirClass): string[] {
         return this.exportClassInternal(girClass, true)
     }
@@ -1491,26 +2375,26 @@ export class GirModule {
                 name: this.name,
                 version: this.version,
                 importName: this.importName,
+                errorDomains: this.getErrorDomains(),
             },
             this.packageName || undefined,
             this.config,
         )
         if (this.config.outdir) {
-            templateProcessor.create('module.js', this.config.outdir, `${this.packageName}.js`)
+            templateProcessor.create('module.js', this.config.outdir, `${this.packageName}.js`, this.packageName)
         } else {
             const moduleContent = templateProcessor.load('module.js')
             this.log.log(moduleContent)
         }
     }
 
-    public export(outStream: NodeJS.WritableStream, outputPath: string | null): void {
-        const out: string[] = []
-
-        out.push(...TemplateProcessor.generateTSDocComment(`${this.packageName}`))
-
-        out.push('')
-
-        const deps: string[] = this.transitiveDependencies
+    /**
+     * Returns the package names of the modules the generated files depend on,
+     * the transitive dependencies, GObject-2.0 and the dependencies added by patches
+     * @param patches
+     */
+    public getDependencies(patches = this.patches): string[] {
+        const deps = [...this.transitiveDependencies]
 
         // Always pull in GObject-2.0, as we may need it for e.g. GObject-2.0.type
         if (this.packageName !== 'GObject-2.0') {
@@ -1520,22 +2404,24 @@ export class GirModule {
         }
 
         // Add missing dependencies
-        if (this.packageName === 'UnityExtras-7.0') {
-            if (!Utils.find(deps, (x) => x === 'Unity-7.0')) {
-                deps.push('Unity-7.0')
-            }
-        }
-        if (this.packageName === 'UnityExtras-6.0') {
-            if (!Utils.find(deps, (x) => x === 'Unity-6.0')) {
-                deps.push('Unity-6.0')
-            }
-        }
-        if (this.packageName === 'GTop-2.0') {
-            if (!Utils.find(deps, (x) => x === 'GLib-2.0')) {
-                deps.push('GLib-2.0')
+        for (const dependency of patches.dependencies?.[this.packageName] || []) {
+            if (!Utils.find(deps, (x) => x === dependency)) {
+                deps.push(dependency)
             }
         }
 
+        return deps
+    }
+
+    public export(outStream: NodeJS.WritableStream, outputPath: string | null): void {
+        const out: string[] = []
+
+        out.push(...TemplateProcessor.generateTSDocComment(`${this.packageName}`))
+
+        out.push('')
+
+        const deps = this.getDependencies()
+
         // Module dependencies as type references or imports
         if (this.config.environment === 'gjs') {
             out.push(...TemplateProcessor.generateModuleDependenciesImport('Gjs', 'Gjs', false, this.config))
@@ -1552,7 +2438,12 @@ export class GirModule {
                     out.push(...TemplateProcessor.generateModuleDependenciesImport(name, dep, false, this.config))
                 } else {
                     out.push(`// WARN: Dependency not found: '${dep}'`)
-                    this.log.error(`Dependency gir file not found: '${girFilename}'`)
+                    this.addDiagnostic(
+                        'missing-dependency',
+                        `Dependency gir file not found: '${girFilename}'`,
+                        null,
+                        'error',
+                    )
                 }
             }
         }
@@ -1568,6 +2459,8 @@ export class GirModule {
 
         if (this.ns.enumeration) for (const e of this.ns.enumeration) out.push(...this.exportEnumeration(e))
 
+        if (this.ns.enumeration) for (const e of this.ns.enumeration) out.push(...this.exportErrorDomain(e))
+
         if (this.ns.bitfield) for (const e of this.ns.bitfield) out.push(...this.exportEnumeration(e))
 
         if (this.ns.constant) for (const e of this.ns.constant) out.push(...this.exportConstant(e))
@@ -1605,11 +2498,25 @@ export class GirModule {
 
         if (this.packageName === 'GObject-2.0') out.push('export interface Type {', '    name: string', '}')
 
+        if (this.name === 'GLib' && this.config.brandedIntegers) out.push(...this.exportBrandedIntegerTypes())
+
+        for (const name of Object.keys(this.inlineCallbacks)) out.push(...this.inlineCallbacks[name])
+
         // END Namespace
         if (this.config.buildType === 'types') {
             out.push(`}`)
         }
 
+        // The namespace as ES module, e.g. `import Gtk from 'gi://Gtk?version=4.0'`
+        if (this.config.moduleType === 'esm') {
+            out.push(
+                '',
+                `declare module 'gi://${this.name}?version=${this.version}' {`,
+                `    export default ${this.name}`,
+                '}',
+            )
+        }
+
         // End of file
         outStream.write(out.join('\n'))
 
@@ -4,9 +4,13 @@ SegfaultHandler.registerHandler('crash.log')
 import 'source-map-support/register'
 export * from './commands/generate'
 export * from './commands/list'
+export * from './commands/watch'
 export * from './types'
 export * from './config'
+export * from './diagnostics'
 export * from './generator'
+export * from './gir-cache'
+export * from './gir-metadata'
 export * from './gir-module'
 export * from './logger'
 export * from './module-loader'
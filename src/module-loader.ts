@@ -18,18 +18,23 @@ import {
     DependencyMap,
     Dependency,
     AnswerVersion,
+    ModuleVersions,
 } from './types'
 import { GirModule } from './gir-module'
 import { Config } from './config'
 import { Logger } from './logger'
 import { Utils } from './utils'
+import { GirCache } from './gir-cache'
+import { GirMetadata } from './gir-metadata'
 
 export class ModuleLoader {
     log: Logger
     /** Transitive module dependencies */
     modDependencyMap: DependencyMap = {}
+    girCache: GirCache
     constructor(private readonly config: GenerateConfig) {
         this.log = new Logger('', config.verbose, 'ModuleLoader')
+        this.girCache = new GirCache(config.verbose)
     }
 
     /**
@@ -213,16 +218,63 @@ export class ModuleLoader {
         }
     }
 
+    /**
+     * Returns the packageName of the version the user has preferred in the config or via cli flag, e.g. 'Gtk-3.0' for `{ Gtk: '3.0' }`
+     * @param girModulesGrouped
+     * @param versions
+     */
+    public findPreferredVersion(girModulesGrouped: GirModulesGrouped, versions: ModuleVersions): string | null {
+        const name = Object.keys(versions).find((name) => name.toLowerCase() === girModulesGrouped.name.toLowerCase())
+        if (!name) {
+            return null
+        }
+        const packageName = `${girModulesGrouped.name}-${versions[name]}`
+        if (!this.existsGirModule(girModulesGrouped.modules, packageName)) {
+            const found = girModulesGrouped.modules.map((module) => module.packageName).join(', ')
+            this.log.warn(`Preferred version '${name}=${versions[name]}' not found, found: ${found}`)
+            return null
+        }
+        return packageName
+    }
+
+    /**
+     * Returns a report of all conflicts that could not be resolved without a prompt
+     * @param unresolved
+     */
+    private getConflictsReport(unresolved: GirModulesGrouped[]): string {
+        const conflicts = unresolved.map(
+            (girModulesGrouped) =>
+                `- ${girModulesGrouped.name}: ${girModulesGrouped.modules
+                    .map((module) => module.packageName)
+                    .join(', ')}`,
+        )
+        const { name, version } = Utils.splitModuleName(unresolved[0].modules[0].packageName)
+        return [
+            'Multiple versions of the following modules were found:',
+            ...conflicts,
+            `Choose a version with the 'versions' option of your config, e.g. "versions: { ${name}: '${version}' }", or with "--preferVersion ${name}=${version}".`,
+        ].join('\n')
+    }
+
     /**
      * If multiple versions of the same module are found, this will aks the user with input prompts for the version he wish to use.
-     * Ignores also modules that depend on a module that should be ignored
-     * @param resolveFirModules
+     * Versions preferred in `versions` are used without a prompt. Ignores also modules that depend on a module that should be ignored
+     * @param girModulesGroupedMap
+     * @param ignore
+     * @param versions Preferred versions, e.g. `{ Gtk: '3.0' }`
+     * @param ignoreConflicts Keep all versions of modules without a preferred version
+     * @param nonInteractive Throw an error with a report of all unresolved conflicts instead of asking
      */
     private async askForEachConflictVersionsPrompt(
         girModulesGroupedMap: GirModulesGroupedMap,
         ignore: string[],
+        versions: ModuleVersions = {},
+        ignoreConflicts = false,
+        nonInteractive = false,
     ): Promise<{ keep: Set<GirModuleResolvedBy>; ignore: string[] }> {
         let keep = new Set<GirModuleResolvedBy>()
+        const unresolved: GirModulesGrouped[] = []
+        let prompted = false
         for (const girModulesGrouped of Object.values(girModulesGroupedMap)) {
             // Remove ignored modules from group
             girModulesGrouped.modules = girModulesGrouped.modules.filter(
@@ -238,6 +290,31 @@ export class ModuleLoader {
             if (!girModulesGrouped.hasConflict) {
                 keep = Utils.union<GirModuleResolvedBy>(keep, girModulesGrouped.modules)
             } else {
+                const preferred = this.findPreferredVersion(girModulesGrouped, versions)
+                if (preferred) {
+                    const unchoosed = girModulesGrouped.modules
+                        .map((module) => module.packageName)
+                        .filter((packageName) => packageName !== preferred)
+                    // Modules that depend on the unchoosed versions can't be used
+                    const ignoreDeps = this.findModulesDependOnPackages(girModulesGroupedMap, unchoosed)
+                    ignore = ignore.concat(
+                        ignoreDeps.map((dep) => dep.packageName).filter((packageName) => !ignore.includes(packageName)),
+                    )
+                    const unionMe = this.sortVersionsByAnswer(girModulesGrouped, preferred)
+                    keep = Utils.union<GirModuleResolvedBy>(keep, unionMe.keep)
+                    ignore = ignore.concat(unionMe.ignore)
+                    continue
+                }
+                if (ignoreConflicts) {
+                    keep = Utils.union<GirModuleResolvedBy>(keep, girModulesGrouped.modules)
+                    continue
+                }
+                if (nonInteractive) {
+                    unresolved.push(girModulesGrouped)
+                    continue
+                }
+
+                prompted = true
                 let goBack = true
                 let versionAnswer: AnswerVersion | null = null
                 let ignoreDepsAnswer: 'Yes' | 'No' | 'Go back' | null = null
@@ -267,12 +344,19 @@ export class ModuleLoader {
                 ignore = ignore.concat(unionMe.ignore)
             }
         }
+        if (unresolved.length > 0) {
+            throw new Error(this.getConflictsReport(unresolved))
+        }
+        // Modules of previous groups may depend on an ignored version
+        keep = new Set(Array.from(keep).filter((girModule) => !ignore.includes(girModule.packageName)))
         if (ignore && ignore.length > 0) {
             const ignoreLogList = '- ' + ignore.join('\n- ')
 
             this.log.log(bold(`\n The following modules will be ignored:`))
             this.log.log(`\n${ignoreLogList}\n`)
-            await this.askAddToIgnoreToConfigPrompt(ignore)
+            if (prompted) {
+                await this.askAddToIgnoreToConfigPrompt(ignore)
+            }
         }
 
         return {
@@ -348,6 +432,26 @@ export class ModuleLoader {
         )
     }
 
+    /**
+     * Returns the passed modules and all modules which depend on them directly or transitively
+     * @param packageNames E.g. the modules of changed GIR files
+     */
+    public getDependentModules(packageNames: string[]): string[] {
+        const result = new Set(packageNames)
+        let found = true
+        while (found) {
+            found = false
+            for (const packageName of Object.keys(this.modDependencyMap)) {
+                if (result.has(packageName)) continue
+                if (this.modDependencyMap[packageName].some((dep) => result.has(dep.packageName))) {
+                    result.add(packageName)
+                    found = true
+                }
+            }
+        }
+        return Array.from(result)
+    }
+
     /**
      * Sets the traverse dependencies for the current girModule,
      * is required so that all dependencies can be found internally when generating the dependency imports for the module .d.ts file
@@ -361,6 +465,24 @@ export class ModuleLoader {
         }
     }
 
+    /**
+     * Applies the `<packageName>.metadata` file found in the metadata directories to the parsed GIR file
+     * @param packageName
+     * @param gir
+     * @returns The content of the metadata file or an empty string if there is none
+     */
+    private applyMetadata(packageName: string, gir: ParsedGir): string {
+        const file = Utils.findFileInDirs(this.config.metadataDirectories, `${packageName}.metadata`)
+        if (!file.exists || file.path === null) {
+            return ''
+        }
+        this.log.log(`Applying ${file.path}...`)
+        const metadataContents = fs.readFileSync(file.path, 'utf8')
+        const metadata = new GirMetadata(packageName, this.config.verbose)
+        metadata.apply(gir, metadata.parse(metadataContents))
+        return metadataContents
+    }
+
     /**
      * Reads a gir xml module file and creates an object of GirModule.
      * Also sets the setDependencyMap
@@ -372,10 +494,17 @@ export class ModuleLoader {
         if (!file.exists || file.path === null) {
             return null
         }
-        this.log.log(`Parsing ${file.path}...`)
         const fileContents = fs.readFileSync(file.path, 'utf8')
-        const result = (await xml2js.parseStringPromise(fileContents)) as ParsedGir
+        let result = this.config.cache ? await this.girCache.load(file.path, fileContents) : null
+        if (!result) {
+            this.log.log(`Parsing ${file.path}...`)
+            result = (await xml2js.parseStringPromise(fileContents)) as ParsedGir
+            if (this.config.cache) await this.girCache.save(file.path, fileContents, result)
+        }
+        const metadataContents = this.applyMetadata(packageName, result)
         const gi = new GirModule(result, this.config)
+        gi.hash = Utils.getHash(fileContents + metadataContents)
+        gi.girFile = file.path
         // Figure out transitive module dependencies
         this.extendDependencyMapByGirModule(gi)
         return gi
@@ -500,23 +629,35 @@ export class ModuleLoader {
     /**
      * Loads all found modules and sorts out those that the user does not want to use
      * (if multiple versions of a gir file are found) including their dependencies
-     * @param girDirectories
      * @param modules
+     * @param ignore
+     * @param doNotAskForVersionOnConflict Keep all versions of modules without a preferred version
+     * @param versions Preferred versions, e.g. `{ Gtk: '3.0' }`
+     * @param nonInteractive Throw an error with a report of all unresolved conflicts instead of asking
      */
     public async getModulesResolved(
         modules: string[],
         ignore: string[] = [],
         doNotAskForVersionOnConflict = true,
+        versions: ModuleVersions = {},
+        nonInteractive = false,
     ): Promise<{ keep: GirModuleResolvedBy[]; ignore: string[]; failed: Set<string> }> {
         const foundGirModules = await this.findModules(modules, ignore)
         const { loaded, failed } = await this.loadGirModules(foundGirModules)
         let keep: GirModuleResolvedBy[] = []
-        if (doNotAskForVersionOnConflict) {
+        if (doNotAskForVersionOnConflict && Object.keys(versions).length === 0) {
             keep = loaded
         } else {
             const girModulesGrouped = this.groupGirFiles(loaded)
-            const filtered = await this.askForEachConflictVersionsPrompt(girModulesGrouped, ignore)
+            const filtered = await this.askForEachConflictVersionsPrompt(
+                girModulesGrouped,
+                ignore,
+                versions,
+                doNotAskForVersionOnConflict,
+                nonInteractive,
+            )
             keep = Array.from(filtered.keep)
+            ignore = filtered.ignore
         }
 
         return { keep, ignore, failed }
@@ -9,12 +9,15 @@ import ejs from 'ejs'
 import { Environment } from './types/environment'
 import { Transformation } from './transformation'
 import { Logger } from './logger'
-import { GenerateConfig } from './types'
+import { Utils } from './utils'
+import { GenerateConfig, TsDocTag } from './types'
 import { CLIEngine } from 'eslint' // TODO depricated: https://eslint.org/docs/developer-guide/nodejs-api#cliengine
 
 const lint = new CLIEngine({ ignore: false, fix: true, useEslintrc: true })
 
-const TEMPLATE_DIR = Path.join(__dirname, '../templates')
+const TEMPLATE_DIR = Path.join(Utils.getPackageDir(), 'templates')
+
+const PATCH_DIR = Path.join(TEMPLATE_DIR, 'patches')
 
 export class TemplateProcessor {
     private environmentTemplateDir: string
@@ -28,6 +31,25 @@ export class TemplateProcessor {
         this.log = new Logger(config.environment, config.verbose, moduleName)
     }
 
+    /**
+     * Returns the template directory, which contains the templates of the environments and the patches
+     */
+    public static getTemplateDir(): string {
+        return TEMPLATE_DIR
+    }
+
+    /**
+     * Returns the paths of the patch files shipped with ts-for-gir
+     */
+    public static getPatchFiles(): string[] {
+        if (!fs.existsSync(PATCH_DIR)) return []
+        return fs
+            .readdirSync(PATCH_DIR)
+            .filter((filename) => Path.extname(filename) === '.json')
+            .sort()
+            .map((filename) => Path.join(PATCH_DIR, filename))
+    }
+
     public static generateIndent(indents = 1, spaceForIndent = 4): string {
         return ' '.repeat(indents * spaceForIndent)
     }
@@ -35,12 +57,28 @@ export class TemplateProcessor {
     /**
      * See https://github.com/microsoft/tsdoc
      * @param description
+     * @param tags Block tags like `@param` or `@returns` appended after the description
+     * @param identCount
      */
-    public static generateTSDocComment(description: string): string[] {
+    public static generateTSDocComment(description: string, tags: TsDocTag[] = [], identCount = 0): string[] {
         const result: string[] = []
-        result.push('/**')
-        result.push(` * ${description}`)
-        result.push(' */')
+        const ident = this.generateIndent(identCount)
+        const lines: string[] = description ? description.split('\n') : []
+
+        if (lines.length && tags.length) {
+            lines.push('')
+        }
+
+        for (const tag of tags) {
+            const paramName = tag.paramName ? ` ${tag.paramName} -` : ''
+            lines.push(...`@${tag.tagName}${paramName} ${tag.text}`.split('\n'))
+        }
+
+        result.push(`${ident}/**`)
+        for (const line of lines) {
+            result.push(`${ident} * ${line}`.replace(/\s+$/, ''))
+        }
+        result.push(`${ident} */`)
         return result
     }
 
@@ -52,17 +90,41 @@ export class TemplateProcessor {
     ): string[] {
         const result: string[] = []
         if (config.buildType === 'lib') {
-            result.push(`import * as ${namespace} from './${baseFilename}';`)
+            result.push(`import * as ${namespace} from '${this.getImportPath(config, baseFilename)}';`)
         } else {
             if (asType) {
                 result.push(`/// <reference types="${baseFilename}" />`)
             } else {
-                result.push(`/// <reference path="${baseFilename}.d.ts" />`)
+                result.push(this.generateReference(config, baseFilename))
             }
         }
         return result
     }
 
+    /**
+     * Returns the path to import a module from, e.g. `./Gtk-4.0` or `@girs/gtk-4.0` if the `package` option is set
+     * @param config
+     * @param packageName E.g. 'Gtk-4.0'
+     */
+    public static getImportPath(config: GenerateConfig, packageName: string): string {
+        if (config.package) {
+            return Transformation.getPackageName(config.environment, packageName)
+        }
+        return `./${packageName}`
+    }
+
+    /**
+     * Returns the triple-slash directive to reference a module of the 'types' build type
+     * @param config
+     * @param packageName E.g. 'Gtk-4.0'
+     */
+    public static generateReference(config: GenerateConfig, packageName: string): string {
+        if (config.package) {
+            return `/// <reference types="${Transformation.getPackageName(config.environment, packageName)}" />`
+        }
+        return `/// <reference path="${packageName}.d.ts" />`
+    }
+
     public static generateSignalMethods(
         environment: Environment,
         sigName: string,
@@ -71,42 +133,61 @@ export class TemplateProcessor {
         params: string,
         retType: string,
         identCount = 1,
+        tsDocComment: string[] = [],
+        detailed = false,
     ): string[] {
         const ident = this.generateIndent(identCount)
-        const signalMethods = [
-            `${ident}connect(sigName: "${sigName}", callback: (($obj: ${clsName}${paramComma}${params}) => ${retType})): number`,
-            `${ident}connect_after(sigName: "${sigName}", callback: (($obj: ${clsName}${paramComma}${params}) => ${retType})): number`,
-            `${ident}emit(sigName: "${sigName}"${paramComma}${params}): void`,
-        ]
-        if (environment === 'node') {
+        // The comment documents all overloads of the signal
+        const signalMethods: string[] = [...tsDocComment]
+        // Detailed signals can also be connected and emitted with a detail, e.g. `changed::key`
+        const sigNameTypes = detailed ? [`"${sigName}"`, `\`${sigName}::\${string}\``] : [`"${sigName}"`]
+        for (const sigNameType of sigNameTypes) {
             signalMethods.push(
-                `${ident}on(sigName: "${sigName}", callback: (...args: any[]) => void): NodeJS.EventEmitter`,
-                `${ident}once(sigName: "${sigName}", callback: (...args: any[]) => void): NodeJS.EventEmitter`,
-                `${ident}off(sigName: "${sigName}", callback: (...args: any[]) => void): NodeJS.EventEmitter`,
+                `${ident}connect(sigName: ${sigNameType}, callback: (($obj: ${clsName}${paramComma}${params}) => ${retType})): number`,
+                `${ident}connect_after(sigName: ${sigNameType}, callback: (($obj: ${clsName}${paramComma}${params}) => ${retType})): number`,
+                `${ident}emit(sigName: ${sigNameType}${paramComma}${params}): ${retType}`,
             )
+            if (environment === 'node') {
+                signalMethods.push(
+                    `${ident}on(sigName: ${sigNameType}, callback: (...args: any[]) => void): NodeJS.EventEmitter`,
+                    `${ident}once(sigName: ${sigNameType}, callback: (...args: any[]) => void): NodeJS.EventEmitter`,
+                    `${ident}off(sigName: ${sigNameType}, callback: (...args: any[]) => void): NodeJS.EventEmitter`,
+                )
+            }
         }
         return signalMethods
     }
 
+    /**
+     * Generates one `notify::` overload for all properties using a template literal type,
+     * which replaces the `notify::${string}` overload of the detailed `notify` signal
+     * @param environment
+     * @param propertyNames
+     * @param callbackObjectName
+     * @param nampespacePrefix
+     * @param identCount
+     */
     public static generateGObjectSignalMethods(
         environment: Environment,
-        propertyName: string,
+        propertyNames: string[],
         callbackObjectName: string,
         nampespacePrefix: string,
         identCount = 1,
     ): string[] {
         const result: string[] = []
+        if (!propertyNames.length) return result
+
         const ident = this.generateIndent(identCount)
+        const sigNameType = `\`notify::\${${propertyNames.map((propertyName) => `"${propertyName}"`).join(' | ')}}\``
         result.push(
-            `${ident}connect(sigName: "notify::${propertyName}", callback: (($obj: ${callbackObjectName}, pspec: ${nampespacePrefix}ParamSpec) => void)): number`,
-            `${ident}connect_after(sigName: "notify::${propertyName}", callback: (($obj: ${callbackObjectName}, pspec: ${nampespacePrefix}ParamSpec) => void)): number`,
+            `${ident}connect(sigName: ${sigNameType}, callback: (($obj: ${callbackObjectName}, pspec: ${nampespacePrefix}ParamSpec) => void)): number`,
+            `${ident}connect_after(sigName: ${sigNameType}, callback: (($obj: ${callbackObjectName}, pspec: ${nampespacePrefix}ParamSpec) => void)): number`,
         )
-        result.push()
         if (environment === 'node') {
             result.push(
-                `${ident}on(sigName: "notify::${propertyName}", callback: (...args: any[]) => void): NodeJS.EventEmitter`,
-                `${ident}once(sigName: "notify::${propertyName}", callback: (...args: any[]) => void): NodeJS.EventEmitter`,
-                `${ident}off(sigName: "notify::${propertyName}", callback: (...args: any[]) => void): NodeJS.EventEmitter`,
+                `${ident}on(sigName: ${sigNameType}, callback: (...args: any[]) => void): NodeJS.EventEmitter`,
+                `${ident}once(sigName: ${sigNameType}, callback: (...args: any[]) => void): NodeJS.EventEmitter`,
+                `${ident}off(sigName: ${sigNameType}, callback: (...args: any[]) => void): NodeJS.EventEmitter`,
             )
         }
 
@@ -148,18 +229,19 @@ export class TemplateProcessor {
      * @param templateFilename
      * @param outputDir
      * @param outputFilename
+     * @param packageName Writes the file to the npm package of this module if the `package` option is set
      * @return The rendered (and if possible prettified) code string
      */
-    public create(templateFilename: string, outputDir: string, outputFilename: string): string {
+    public create(templateFilename: string, outputDir: string, outputFilename: string, packageName?: string): string {
         const fileContent = this.load(templateFilename)
         const renderedCode = this.render(fileContent)
-        const destPath = this.write(renderedCode, outputDir, outputFilename)
+        const destPath = this.write(renderedCode, outputDir, outputFilename, packageName)
         const prettifiedCode = this.config.pretty ? this.prettify(destPath, true) : null
         return prettifiedCode || renderedCode
     }
 
-    protected write(content: string, outputDir: string, outputFilename: string): string {
-        outputDir = Transformation.getEnvironmentDir(this.config.environment, outputDir)
+    protected write(content: string, outputDir: string, outputFilename: string, packageName?: string): string {
+        outputDir = Transformation.getOutputDir(this.config, outputDir, packageName)
         const destPath = Path.join(outputDir, outputFilename)
 
         // write template result file
@@ -170,7 +252,16 @@ export class TemplateProcessor {
     }
 
     protected render(templateString: string, additionalData: any = {}): string {
-        const renderedCode = ejs.render(templateString, { ...this.config, ...this.data, ...additionalData })
+        const helpers = {
+            importPath: (packageName: string) => TemplateProcessor.getImportPath(this.config, packageName),
+            reference: (packageName: string) => TemplateProcessor.generateReference(this.config, packageName),
+        }
+        const renderedCode = ejs.render(templateString, {
+            ...this.config,
+            ...helpers,
+            ...this.data,
+            ...additionalData,
+        })
         return renderedCode
     }
 
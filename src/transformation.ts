@@ -3,7 +3,17 @@
  * For example a function names should be transformed to lowerCamelCase for node-gtk but should keep their original name for gjs
  */
 
-import { Transformations, Environment, ConstructName, TypeSuffix, CTypeMap, GType, GenerateConfig } from './types'
+import {
+    Transformations,
+    TransformationCase,
+    TransformationOverrides,
+    Environment,
+    ConstructName,
+    TypeSuffix,
+    CTypeMap,
+    GType,
+    GenerateConfig,
+} from './types'
 import Path from 'path'
 import { Utils } from './utils'
 import { Logger } from './logger'
@@ -49,6 +59,36 @@ export const POD_TYPE_MAP = {
     va_list: 'any',
 }
 
+/**
+ * The ranges of the integer types, used for the branded number types of the `brandedIntegers` option.
+ * `glong`, `gulong`, `gssize` and `gsize` have the size of a pointer, their ranges are the ones of 64-bit platforms
+ */
+export const INTEGER_TYPE_RANGES: { [girTypeName: string]: [string, string] } = {
+    gchar: ['-128', '127'],
+    gint8: ['-128', '127'],
+    guint8: ['0', '255'],
+    gshort: ['-32768', '32767'],
+    gint16: ['-32768', '32767'],
+    gushort: ['0', '65535'],
+    guint16: ['0', '65535'],
+    gint: ['-2147483648', '2147483647'],
+    gint32: ['-2147483648', '2147483647'],
+    guint: ['0', '4294967295'],
+    guint32: ['0', '4294967295'],
+    gunichar: ['0', '1114111'],
+    glong: ['-9223372036854775808', '9223372036854775807'],
+    gulong: ['0', '18446744073709551615'],
+    gint64: ['-9223372036854775808', '9223372036854775807'],
+    guint64: ['0', '18446744073709551615'],
+    gssize: ['-9223372036854775808', '9223372036854775807'],
+    gsize: ['0', '18446744073709551615'],
+}
+
+/**
+ * Integer types node-gtk returns as `bigint` if the value is not a safe integer
+ */
+export const BIGINT_TYPES = ['gint64', 'guint64']
+
 export const C_TYPE_MAP = (targetFullName?: string, suffix: TypeSuffix = ''): CTypeMap => {
     return {
         'char*': 'string',
@@ -159,6 +199,15 @@ export const RESERVED_CLASS_NAMES = [
     'yield',
 ]
 
+export const TRANSFORMATION_CASES: TransformationCase[] = [
+    'original',
+    'lowerCamelCase',
+    'upperCamelCase',
+    'upperCase',
+    'lowerCase',
+    'underscores',
+]
+
 export const RESERVED_FUNCTION_NAMES = ['false', 'true', 'break']
 
 export const RESERVED_NAMESPACE_NAMES = {}
@@ -247,8 +296,32 @@ export class Transformation {
 
     private log: Logger
 
-    constructor(moduleName = 'Transformation', private readonly config: GenerateConfig) {
+    constructor(private readonly moduleName = 'Transformation', private readonly config: GenerateConfig) {
         this.log = new Logger(config.environment, config.verbose, moduleName)
+        if (config.transformations) this.applyOverrides(config.transformations)
+    }
+
+    /**
+     * Overrides the name conventions with the `transformations` of the config file
+     * @param overrides
+     */
+    private applyOverrides(overrides: TransformationOverrides): void {
+        for (const construct of Object.keys(overrides) as ConstructName[]) {
+            if (!this.transformations[construct]) {
+                this.log.warn(`Unknown construct '${construct}' in the transformations of the config`)
+                continue
+            }
+            const environments = overrides[construct] || {}
+            for (const environment of Object.keys(environments) as Environment[]) {
+                const transformation = environments[environment]
+                if (!transformation) continue
+                if (typeof transformation === 'string' && !TRANSFORMATION_CASES.includes(transformation)) {
+                    this.log.warn(`Unknown transformation '${transformation}' for '${construct}' in the config`)
+                    continue
+                }
+                this.transformations[construct][environment] = { transformation }
+            }
+        }
     }
 
     public transformModuleNamespaceName(name: string): string {
@@ -327,6 +400,24 @@ export class Transformation {
         return name
     }
 
+    /**
+     * Returns the property name in the naming convention of the other environment,
+     * e.g. `fooBar` for `foo-bar` in gjs and `foo_bar` in node-gtk, which both accept.
+     * Returns null if it is the same as the transformed property name
+     */
+    public transformPropertyNameAlias(name: string, allowQuotes: boolean): string | null {
+        const propertyName = this.transformPropertyName(name, allowQuotes)
+        let alias = this.config.environment === 'gjs' ? Utils.lowerCamelCase(name) : name.replace(/-|_/g, '_')
+
+        if (RESERVED_VARIABLE_NAMES.includes(alias)) {
+            if (allowQuotes) alias = `"${alias}"`
+            else alias = `${alias}_`
+        }
+
+        alias = this.transformNumericName(alias, allowQuotes)
+        return alias === propertyName ? null : alias
+    }
+
     public transformConstantName(name: string, allowQuotes: boolean): string {
         name = this.transform('constantName', name)
         const originalName = `${name}`
@@ -389,6 +480,9 @@ export class Transformation {
 
     public transform(construct: ConstructName, transformMe: string): string {
         const transformations = this.transformations[construct][this.config.environment].transformation
+        if (typeof transformations === 'function') {
+            return transformations(transformMe, this.moduleName)
+        }
         if (transformations === 'original') {
             return transformMe
         }
@@ -438,4 +532,28 @@ export class Transformation {
     getEnvironmentDir(baseDir: string): string {
         return Transformation.getEnvironmentDir(this.config.environment, baseDir)
     }
+
+    /**
+     * Returns the name of the npm package of a module, e.g. `@girs/gtk-4.0` for gjs or `@girs/node-gtk-4.0` for node-gtk
+     * @param environment
+     * @param packageName E.g. 'Gtk-4.0' or 'Gjs'
+     */
+    static getPackageName(environment: Environment, packageName: string): string {
+        const prefix = environment === 'node' ? 'node-' : ''
+        return `@girs/${prefix}${packageName.toLowerCase()}`
+    }
+
+    /**
+     * Returns the directory the files of a module are written to,
+     * this is the directory of its npm package if the `package` option is set and the environment directory otherwise
+     * @param config
+     * @param baseDir
+     * @param packageName E.g. 'Gtk-4.0', the environment directory is returned if not set
+     */
+    static getOutputDir(config: GenerateConfig, baseDir: string, packageName?: string): string {
+        if (config.package && packageName) {
+            return Path.join(baseDir, Transformation.getPackageName(config.environment, packageName))
+        }
+        return Transformation.getEnvironmentDir(config.environment, baseDir)
+    }
 }
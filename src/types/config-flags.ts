@@ -2,4 +2,6 @@ import { UserConfig } from './user-config'
 
 export interface ConfigFlags extends UserConfig {
     configName: string
+    clearCache: boolean
+    preferVersion: string[]
 }
@@ -0,0 +1,10 @@
+export type DiagnosticName =
+    | 'unresolved-type'
+    | 'duplicate-constant'
+    | 'false-overload'
+    | 'circular-inheritance'
+    | 'duplicate-symbol'
+    | 'error-domain-conflict'
+    | 'missing-dependency'
+    | 'any-type'
+    | 'untyped-variable'
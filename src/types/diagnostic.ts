@@ -0,0 +1,21 @@
+import { DiagnosticName } from './diagnostic-name'
+import { Environment } from './environment'
+
+/**
+ * A problem found while generating the typings, see the `--report` option
+ */
+export interface Diagnostic {
+    /** E.g. `TS4G001` */
+    code: string
+    name: DiagnosticName
+    message: string
+    environment: Environment
+    /** Package name of the module, e.g. `Gtk-3.0` */
+    module: string
+    /** Path of the affected symbol, e.g. `Gtk.Widget.get_style` */
+    symbol: string | null
+    /** Path of the GIR file of the module */
+    file: string | null
+    /** GIR type of an unresolved or `any` type, e.g. `Gtk.Widget` */
+    type?: string
+}
@@ -0,0 +1,10 @@
+import { Diagnostic } from './diagnostic'
+
+/**
+ * Content of the JSON file written with `--report`
+ */
+export interface DiagnosticsReport {
+    /** Version of ts-for-gir which has written the report */
+    version: string
+    diagnostics: Diagnostic[]
+}
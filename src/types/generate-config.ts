@@ -1,4 +1,4 @@
-import { BuildType, Environment } from '.'
+import { BuildType, Environment, ModuleType, Patches, PropertyAliases, TransformationOverrides } from '.'
 
 /**
  * Type for currently used config e.g. in GirModule
@@ -7,8 +7,22 @@ export interface GenerateConfig {
     environment: Environment
     outdir: string | null
     buildType?: BuildType
+    moduleType: ModuleType
     girDirectories: string[]
+    metadataDirectories: string[]
     verbose: boolean
     pretty: boolean
+    package: boolean
+    tsconfig: boolean
     inheritance: boolean
+    noComments: boolean
+    promisify: boolean
+    propertyAliases: PropertyAliases
+    unknownOverAny: boolean
+    brandedIntegers: boolean
+    transformations?: TransformationOverrides
+    /** Paths to JSON or JS patch files or the patches themselves */
+    patches?: (string | Patches)[]
+    cache: boolean
+    force: boolean
 }
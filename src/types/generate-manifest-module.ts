@@ -0,0 +1,16 @@
+import { GenerateConfig } from './generate-config'
+
+/**
+ * Inputs of a generated module, the module is only generated again if one of them has changed
+ */
+export interface GenerateManifestModule {
+    /** Version of ts-for-gir which has generated the module */
+    version: string
+    /** Hash of the GIR file content */
+    hash: string | null
+    /** Hashes of the GIR files of the transitive dependencies */
+    dependencies: { [packageName: string]: string | null }
+    /** Hash of the loaded patches */
+    patches: string
+    config: Partial<GenerateConfig>
+}
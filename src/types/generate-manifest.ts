@@ -0,0 +1,8 @@
+import { GenerateManifestModule } from './generate-manifest-module'
+
+/**
+ * Type of the manifest which is written to the output directory to skip unchanged modules
+ */
+export interface GenerateManifest {
+    modules: { [packageName: string]: GenerateManifestModule }
+}
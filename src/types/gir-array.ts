@@ -2,9 +2,13 @@ import { GirType } from './gir-type'
 
 export interface GirArray {
     $?: {
+        /** E.g. `GLib.PtrArray`, not set for C arrays */
+        name?: string
         length?: string
         'zero-terminated'?: string
         'c:type'?: string
     }
     type?: GirType[]
+    /** Nested arrays, e.g. for `gchar***` */
+    array?: GirArray[]
 }
@@ -0,0 +1,8 @@
+/**
+ * A C header of a GIR module, e.g. `<c:include name="gtk/gtk.h"/>`
+ */
+export interface GirCInclude {
+    $: {
+        name: string
+    }
+}
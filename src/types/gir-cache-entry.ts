@@ -0,0 +1,14 @@
+import { ParsedGir } from './parsed-gir'
+
+/**
+ * Type of a parsed GIR file stored in the cache
+ */
+export interface GirCacheEntry {
+    /** Version of ts-for-gir which has parsed the GIR file */
+    version: string
+    path: string
+    mtimeMs: number
+    /** Hash of the GIR file content */
+    hash: string
+    parsedGir: ParsedGir
+}
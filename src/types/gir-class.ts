@@ -6,12 +6,15 @@ import { GirVariable } from './gir-variable'
 import { GirImplements } from './gir-implements'
 import { GirPrerequisite } from './gir-prerequisite'
 import { GirVirtualMethod } from './gir-virtual-method'
+import { GirBoolean } from './gir-boolean'
 
 export interface GirClass extends TsForGjsExtended {
     $: {
         name: string
         parent?: string
         version?: string
+        deprecated?: GirBoolean
+        'deprecated-version'?: string
         // Not sure what this means
         disguised?: string
         'c:symbol-prefix': string
@@ -23,6 +26,7 @@ export interface GirClass extends TsForGjsExtended {
         when?: 'first' | 'last'
     }
     doc?: GirDoc[]
+    'doc-deprecated'?: GirDoc[]
     function?: GirFunction[]
     'glib:signal'?: GirFunction[]
     method?: GirFunction[]
@@ -1,4 +1,5 @@
 import { GirDoc } from './gir-doc'
+import { GirBoolean } from './gir-boolean'
 
 export interface GirEnumerationMember {
     $: {
@@ -6,6 +7,10 @@ export interface GirEnumerationMember {
         value: string
         'c:identifier'?: string
         'glib:nick'?: string
+        version?: string
+        deprecated?: GirBoolean
+        'deprecated-version'?: string
     }
     doc?: GirDoc[]
+    'doc-deprecated'?: GirDoc[]
 }
@@ -7,9 +7,13 @@ export interface GirEnumeration extends TsForGjsExtended {
     $: {
         name: string
         version?: string
+        deprecated?: GirBoolean
+        'deprecated-version'?: string
         'c:type'?: string
         introspectable?: GirBoolean
+        'glib:error-domain'?: string
     }
     doc?: GirDoc[]
+    'doc-deprecated'?: GirDoc[]
     member?: GirEnumerationMember[]
 }
@@ -8,6 +8,9 @@ export interface GirNamespace {
     $: {
         name: string
         version: string
+        'shared-library'?: string
+        'c:identifier-prefixes'?: string
+        'c:symbol-prefixes'?: string
     }
     alias?: GirAlias[]
     bitfield?: GirEnumeration[]
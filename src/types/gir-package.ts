@@ -0,0 +1,8 @@
+/**
+ * The pkg-config package of a GIR module, e.g. `<package name="gtk4"/>`
+ */
+export interface GirPackage {
+    $: {
+        name: string
+    }
+}
@@ -1,7 +1,11 @@
 import { GirNamespace } from './gir-namespace'
 import { GirInclude } from './gir-include'
+import { GirPackage } from './gir-package'
+import { GirCInclude } from './gir-c-include'
 
 export interface GirRepository {
     include?: GirInclude[]
+    package?: GirPackage[]
+    'c:include'?: GirCInclude[]
     namespace?: GirNamespace[]
 }
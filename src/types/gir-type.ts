@@ -3,4 +3,6 @@ export interface GirType {
         name: string
         'c:type'?: string
     }
+    /** The element types of containers, e.g. the key and value type of `GLib.HashTable` */
+    type?: GirType[]
 }
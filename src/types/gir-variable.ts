@@ -11,7 +11,10 @@ import { GirBoolean } from './gir-boolean'
 export interface GirVariable extends TsForGjsExtended {
     $: {
         name?: string
+        'c:type'?: string
         version?: string
+        deprecated?: GirBoolean
+        'deprecated-version'?: string
         'transfer-ownership'?: 'none' | 'full'
         nullable?: GirBoolean
         optional?: GirBoolean
@@ -28,6 +31,7 @@ export interface GirVariable extends TsForGjsExtended {
         destroy?: string
     }
     doc?: GirDoc[]
+    'doc-deprecated'?: GirDoc[]
     type?: GirType[]
     array?: GirArray[]
     callback?: GirFunction[]
@@ -38,15 +42,18 @@ export interface GirFunction extends TsForGjsExtended {
     $: {
         name: string
         version?: string
+        deprecated?: GirBoolean
+        'deprecated-version'?: string
         'c:identifier'?: string
         introspectable?: GirBoolean
         'moved-to'?: string
         'shadowed-by'?: string
-        when?: 'first' | 'last'
+        when?: 'first' | 'last' | 'cleanup'
         detailed?: GirBoolean
         throws?: GirBoolean
     }
     doc?: GirDoc[]
+    'doc-deprecated'?: GirDoc[]
     parameters?: GirParameter[]
     'return-value'?: GirVariable[]
 }
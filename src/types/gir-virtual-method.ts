@@ -5,6 +5,8 @@ export interface GirVirtualMethod extends GirFunction {
     $: {
         name: string
         version?: string
+        deprecated?: GirBoolean
+        'deprecated-version'?: string
         'c:identifier'?: string
         introspectable?: GirBoolean
         'moved-to'?: string
@@ -6,14 +6,21 @@ export * from './config-flags'
 export * from './construct-name'
 export * from './dependency-map'
 export * from './dependency'
+export * from './diagnostic-name'
+export * from './diagnostic'
+export * from './diagnostics-report'
 export * from './environment'
 export * from './function-description'
 export * from './function-map'
 export * from './g-type'
 export * from './generate-config'
+export * from './generate-manifest'
+export * from './generate-manifest-module'
 export * from './gir-alias'
 export * from './gir-array'
 export * from './gir-boolean'
+export * from './gir-c-include'
+export * from './gir-cache-entry'
 export * from './gir-class'
 export * from './gir-construct'
 export * from './gir-doc'
@@ -25,6 +32,7 @@ export * from './gir-module-resolved-by'
 export * from './gir-modules-grouped-map'
 export * from './gir-modules-grouped'
 export * from './gir-namespace'
+export * from './gir-package'
 export * from './gir-parameter'
 export * from './gir-prerequisite'
 export * from './gir-repository'
@@ -34,14 +42,27 @@ export * from './gir-variable'
 export * from './gir-virtual-method'
 export * from './inheritance-table'
 export * from './local-names'
+export * from './metadata-rule'
+export * from './metadata-selector'
+export * from './module-type'
+export * from './module-versions'
+export * from './package-json'
 export * from './parsed-gir'
+export * from './patch-member'
+export * from './patches'
+export * from './property-aliases'
 export * from './resolve-type'
 export * from './sym-table'
 export * from './transformation-case'
+export * from './transformation-hook'
+export * from './transformation-overrides'
+export * from './ts-config'
 export * from './transformations'
+export * from './ts-doc-tag'
 export * from './ts-for-gjs-extended'
 export * from './type-array-suffix'
 export * from './type-nullable-suffix'
 export * from './type-suffix'
 export * from './user-config-load-result'
 export * from './user-config'
+export * from './watch-target'
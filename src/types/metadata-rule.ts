@@ -0,0 +1,14 @@
+import { MetadataSelector } from './metadata-selector'
+
+/**
+ * A rule of a Vala `.metadata` file, e.g. `Widget.get_style skip`
+ * See https://wiki.gnome.org/Projects/Vala/Manual/GIR%20metadata%20format
+ */
+export interface MetadataRule {
+    /** The selector split at the dots, relative rules are already resolved */
+    selectors: MetadataSelector[]
+    /** Arguments without a value are `'true'` */
+    args: { [name: string]: string }
+    /** Line in the metadata file, used for warnings */
+    line: number
+}
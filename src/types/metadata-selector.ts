@@ -0,0 +1,9 @@
+/**
+ * One part of the selector of a Vala metadata rule, e.g. `get_style#method`
+ */
+export interface MetadataSelector {
+    /** Glob pattern matched against the name, e.g. `get_*` */
+    pattern: string
+    /** Restricts the matched elements, e.g. `method`, `property` or `signal` */
+    type?: string
+}
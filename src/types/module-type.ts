@@ -0,0 +1 @@
+export type ModuleType = 'esm' | 'commonjs'
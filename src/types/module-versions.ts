@@ -0,0 +1,6 @@
+/**
+ * Preferred versions of modules by name, used if multiple versions of a module are found, e.g. `{ Gtk: '3.0', Soup: '2.4' }`
+ */
+export interface ModuleVersions {
+    [name: string]: string
+}
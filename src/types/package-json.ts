@@ -0,0 +1,15 @@
+/**
+ * The `package.json` of a generated npm package
+ */
+export interface PackageJson {
+    name: string
+    version: string
+    description: string
+    main?: string
+    types: string
+    exports: {
+        [path: string]: string | { types: string; default?: string }
+    }
+    dependencies: { [name: string]: string }
+    keywords: string[]
+}
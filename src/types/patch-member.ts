@@ -0,0 +1,13 @@
+/**
+ * Patch of a function, method, property, field, constant or parameter
+ */
+export interface PatchMember {
+    /** Why the member is patched, written as a comment in front of a replaced signature */
+    comment?: string
+    /** Replaces the signature of a function, e.g. `get_name(): string | null` */
+    signature?: string
+    /** Removes the member */
+    remove?: boolean
+    /** Makes the type nullable, of a function its return type */
+    nullable?: boolean
+}
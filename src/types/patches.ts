@@ -0,0 +1,13 @@
+import { PatchMember } from './patch-member'
+
+/**
+ * Fixes for bad annotations in GIR files, loaded from `templates/patches` and the `patches` of the config
+ */
+export interface Patches {
+    /** Patches by the full symbol name, e.g. `Gtk.MenuItem.activate` or `Gtk.Widget.set_tooltip_text.text` for a parameter */
+    members?: { [fullSymName: string]: PatchMember }
+    /** Members added to classes, interfaces and records by their full symbol name, e.g. `Gtk.Widget` */
+    add?: { [fullSymName: string]: string[] }
+    /** Missing dependencies of modules by their package name, e.g. `UnityExtras-7.0` */
+    dependencies?: { [packageName: string]: string[] }
+}
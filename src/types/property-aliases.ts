@@ -0,0 +1,5 @@
+/**
+ * How the alias of a property in the naming convention of the other environment is marked, e.g. `fooBar` for `foo_bar` in gjs.
+ * `none` generates no aliases
+ */
+export type PropertyAliases = 'none' | 'alias' | 'deprecated'
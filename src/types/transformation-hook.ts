@@ -0,0 +1,6 @@
+/**
+ * Custom rename function for names of a construct, can be used in `.js` config files
+ * @param name The name from the GIR file, e.g. `show_all`
+ * @param packageName The module of the name, e.g. `Gtk-3.0`
+ */
+export type TransformationHook = (name: string, packageName: string) => string
@@ -0,0 +1,13 @@
+import { ConstructName } from './construct-name'
+import { Environment } from './environment'
+import { TransformationCase } from './transformation-case'
+import { TransformationHook } from './transformation-hook'
+
+/**
+ * Overrides of the name conventions in the config file, e.g. `{ functionName: { gjs: 'lowerCamelCase' } }`
+ */
+export type TransformationOverrides = {
+    [construct in ConstructName]?: {
+        [environment in Environment]?: TransformationCase | TransformationHook
+    }
+}
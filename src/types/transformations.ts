@@ -1,12 +1,13 @@
 import { TransformationCase } from './transformation-case'
+import { TransformationHook } from './transformation-hook'
 
 export interface Transformations {
     [type: string]: {
         node: {
-            transformation: TransformationCase
+            transformation: TransformationCase | TransformationHook
         }
         gjs: {
-            transformation: TransformationCase
+            transformation: TransformationCase | TransformationHook
         }
     }
 }
@@ -0,0 +1,17 @@
+/**
+ * The generated `tsconfig.ts-for-gir.json` which projects can extend
+ */
+export interface TsConfig {
+    compilerOptions: {
+        target: string
+        lib: string[]
+        module: string
+        moduleResolution: string
+        types: string[]
+        typeRoots?: string[]
+        skipLibCheck: boolean
+        baseUrl: string
+        paths: { [pattern: string]: string[] }
+    }
+    files: string[]
+}
@@ -0,0 +1,15 @@
+/**
+ * A block tag of a TSDoc comment, e.g. `@param name - description`
+ * See https://github.com/microsoft/tsdoc
+ */
+export interface TsDocTag {
+    /**
+     * E.g. 'param', 'returns' or 'deprecated'
+     */
+    tagName: string
+    /**
+     * Only used for `@param` tags
+     */
+    paramName?: string
+    text: string
+}
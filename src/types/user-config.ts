@@ -1,4 +1,12 @@
-import { BuildType, Environment } from '.'
+import {
+    BuildType,
+    Environment,
+    ModuleType,
+    ModuleVersions,
+    Patches,
+    PropertyAliases,
+    TransformationOverrides,
+} from '.'
 
 /**
  * Types for config file
@@ -7,12 +15,33 @@ export interface UserConfig {
     environments: Environment[]
     outdir: string | null
     buildType?: BuildType
+    moduleType: ModuleType
     girDirectories: string[]
+    metadataDirectories: string[]
     verbose: boolean
     ignoreConflicts: boolean
+    nonInteractive: boolean
     inheritance: boolean
+    noComments: boolean
+    promisify: boolean
+    propertyAliases: PropertyAliases
+    unknownOverAny: boolean
+    brandedIntegers: boolean
+    transformations?: TransformationOverrides
+    /** Paths to JSON or JS patch files or the patches themselves */
+    patches?: (string | Patches)[]
+    cache: boolean
+    force: boolean
     print: boolean
     pretty: boolean
+    package: boolean
+    tsconfig: boolean
     modules: string[]
     ignore?: string[]
+    versions?: ModuleVersions
+    /** Path of the JSON or SARIF diagnostics report */
+    report?: string
+    strict: boolean
+    /** Glob patterns of the symbols or types which may be unresolved in the `strict` mode */
+    allowUnresolved?: string[]
 }
@@ -0,0 +1,12 @@
+/**
+ * A directory watched by the `watch` command
+ */
+export interface WatchTarget {
+    dir: string
+    /** What the change of a relevant file means, a changed GIR or metadata file only affects its module and its dependents */
+    change: 'gir' | 'config' | 'templates' | 'patches'
+    /** Only files with this extension are relevant, e.g. `.gir` */
+    extname?: string
+    /** Only files with this name are relevant, e.g. `.ts-for-girrc.js` */
+    filename?: string
+}
@@ -1,6 +1,7 @@
 import lodash from 'lodash'
 import Path from 'path'
 import fs from 'fs'
+import { createHash } from 'crypto'
 
 export class Utils {
     public static splitModuleName(packageName: string): { packageName: string; name: string; version: string } {
@@ -78,6 +79,50 @@ export class Utils {
         }
     }
 
+    /**
+     * Returns the directory of the ts-for-gir package with the package.json and the templates.
+     * The tests are built to another directory than `lib`, so the package.json is searched upwards.
+     */
+    public static getPackageDir(): string {
+        let dir = Path.dirname(__dirname)
+        while (!fs.existsSync(Path.join(dir, 'package.json')) && Path.dirname(dir) !== dir) dir = Path.dirname(dir)
+        return dir
+    }
+
+    /**
+     * Returns a directory and all its subdirectories, `fs.watch` does not watch subdirectories on every platform
+     * @param dir
+     */
+    public static getDirsRecursive(dir: string): string[] {
+        if (!fs.existsSync(dir)) return []
+        const dirs = [dir]
+        for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+            if (entry.isDirectory()) dirs.push(...this.getDirsRecursive(Path.join(dir, entry.name)))
+        }
+        return dirs
+    }
+
+    /**
+     * Returns a function which calls the callback once it was not called again for the delay.
+     * Calls while the callback is running call it again after it has finished, the callback must not reject.
+     * @param callback
+     * @param delay In milliseconds
+     */
+    public static debounce(callback: () => Promise<void>, delay: number): () => void {
+        let timer: NodeJS.Timeout | null = null
+        let running = false
+        const schedule = (): void => {
+            if (timer) clearTimeout(timer)
+            timer = setTimeout(() => {
+                timer = null
+                if (running) return schedule()
+                running = true
+                void callback().then(() => (running = false))
+            }, delay)
+        }
+        return schedule
+    }
+
     /**
      * Union (a ∪ b): create a set that contains the elements of both set a and set b.
      * See https://2ality.com/2015/01/es6-set-operations.html#union
@@ -88,6 +133,27 @@ export class Utils {
         return (target = new Set<T>([...target, ...source]))
     }
 
+    /**
+     * Returns the SHA-1 hash of the content as hex string
+     * @param content
+     */
+    public static getHash(content: string): string {
+        return createHash('sha1').update(content).digest('hex')
+    }
+
+    /**
+     * Converts a glob pattern with `*` and `?` to a regular expression, e.g. `Gtk.Widget.*`
+     * @param pattern
+     */
+    public static globToRegExp(pattern: string): RegExp {
+        return new RegExp(
+            `^${pattern
+                .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+                .replace(/\*/g, '.*')
+                .replace(/\?/g, '.')}$`,
+        )
+    }
+
     public static isEqual = lodash.isEqual
 
     public static map = lodash.map
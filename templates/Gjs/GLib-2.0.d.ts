@@ -0,0 +1,4 @@
+// In GJS the enumeration of an error domain (e.g. Gio.IOErrorEnum) can be used as the domain of an error.
+export interface Error {
+    matches<T extends number>(domain: Quark | object, code: T): this is Error & { code: T };
+}
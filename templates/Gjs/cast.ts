@@ -1,4 +1,4 @@
-import * as GObject from './GObject-2.0';
+import * as GObject from '<%= importPath('GObject-2.0') %>';
 
 const inheritanceTable: { [key: string]: string[] } = {
 <%_ for (const key of inheritanceTableKeys) { _%>
@@ -0,0 +1,22 @@
+/* eslint-disable @typescript-eslint/triple-slash-reference */
+<%_ for (const girModule of girModules) { _%>
+<%- reference(girModule.packageName) %>
+<%_ } _%>
+
+declare function print(...args: any[]): void
+declare function printerr(...args: any[]): void
+declare function log(message?: string): void
+declare function logError(exception: any, message?: string): void
+declare const ARGV: string[]
+
+<%_ const aliases = [] _%>
+<%_ for (const girModule of girModules) { _%>
+<%_ if (aliases.includes(girModule.name)) continue; aliases.push(girModule.name) _%>
+declare module 'gi://<%= girModule.name %>' {
+    export default <%= girModule.name %>
+}
+
+<%_ } _%>
+declare module 'resource:///*'
+
+declare module 'file://*'
@@ -1,6 +1,6 @@
-import * as Gjs from "./Gjs";
+import * as Gjs from "<%= importPath('Gjs') %>";
 <%_ for (const girModule of girModules) { _%>
-import * as <%= girModule.importName %> from "./<%= girModule.packageName %>";
+import * as <%= girModule.importName %> from "<%= importPath(girModule.packageName) %>";
 <%_ } _%>
 
 
@@ -1,2 +1,16 @@
 imports.gi.versions.<%= name %> = '<%= version %>';
+<%_ if (errorDomains.length) { _%>
+// The error domain classes are aliases of their enumerations, the namespace object of GJS is shared and left untouched
+const errorDomains = {
+<%_ for (const errorDomain of errorDomains) { _%>
+    <%= errorDomain.className %>: '<%= errorDomain.enumName %>',
+<%_ } _%>
+};
+const hasErrorDomain = (key) => Object.prototype.hasOwnProperty.call(errorDomains, key);
+module.exports = new Proxy(imports.gi.<%= name %>, {
+    get: (target, key) => (hasErrorDomain(key) ? target[errorDomains[key]] : target[key]),
+    has: (target, key) => hasErrorDomain(key) || key in target,
+});
+<%_ } else { _%>
 module.exports = imports.gi.<%= name %>;
+<%_ } _%>
@@ -1,10 +1,10 @@
 /* eslint-disable @typescript-eslint/triple-slash-reference */
 <%_ for (const girModule of girModules) { _%>
     <%_ if (buildType === 'lib') { _%>
-        import * as <%= girModule.name %> from './<%= girModule.packageName %>';
+        import * as <%= girModule.name %> from '<%= importPath(girModule.packageName) %>';
     <%_ } _%>
     <%_ if (buildType === 'types') { _%>
-/// <reference path="<%= girModule.packageName %>.d.ts" />
+<%- reference(girModule.packageName) %>
     <%_ } _%>
 <%_ } _%>
 
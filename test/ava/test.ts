@@ -1,5 +1,26 @@
 import test from 'ava'
-import { GirEnumeration, GirModule, GenerateConfig, GirFunction } from '../../src'
+import fs from 'fs'
+import os from 'os'
+import Path from 'path'
+import ts from 'typescript'
+import {
+    Config,
+    ConfigFlags,
+    Generator,
+    GirEnumeration,
+    GirModule,
+    GenerateConfig,
+    GirFunction,
+    GirCache,
+    GirClass,
+    GirMetadata,
+    ModuleLoader,
+    ParsedGir,
+    Transformation,
+    UserConfig,
+    Utils,
+} from '../../src'
+import Watch from '../../src/commands/watch'
 import * as TestData from './testData'
 
 const emptyRepositoryXml = {
@@ -18,10 +39,22 @@ const emptyRepositoryXml = {
 const config: GenerateConfig = {
     environment: 'gjs',
     girDirectories: [''],
+    metadataDirectories: [],
     outdir: '',
     pretty: false,
+    package: false,
+    tsconfig: false,
     verbose: false,
     buildType: 'lib',
+    moduleType: 'commonjs',
+    inheritance: false,
+    noComments: false,
+    promisify: false,
+    propertyAliases: 'none',
+    unknownOverAny: false,
+    brandedIntegers: false,
+    cache: false,
+    force: false,
 }
 
 test('enumeration', (t) => {
@@ -43,6 +76,56 @@ test('enumeration', (t) => {
     t.deepEqual(mod.exportEnumeration(enum_), ['export enum MyEnum {', '    MEMBER_1,', '}'])
 })
 
+test('error domain', (t) => {
+    const enum_: GirEnumeration = {
+        $: {
+            name: 'IOErrorEnum',
+            'glib:error-domain': 'g-io-error-quark',
+        },
+        member: [
+            {
+                $: {
+                    name: 'failed',
+                    value: '0',
+                },
+            },
+        ],
+    }
+
+    const func: GirFunction = {
+        $: { name: 'load', throws: '1' },
+        'return-value': [{ $: { 'transfer-ownership': 'none' }, type: [{ $: { name: 'gboolean' } }] }],
+    }
+
+    const giXml = { repository: { namespace: [{ $: { name: 'Gio', version: '2.0', 'c:symbol-prefixes': 'g' } }] } }
+    const mod = new GirModule(giXml, config)
+    t.deepEqual(mod.exportErrorDomain(enum_), [
+        '/**',
+        ' * Error of the `g-io-error-quark` domain with the codes of {@link IOErrorEnum}.',
+        ' * At runtime this class is an alias of {@link IOErrorEnum}, the class of these errors.',
+        ' */',
+        'export class IoError extends GLib.Error {',
+        '    constructor(options: { message: string, code: IOErrorEnum })',
+        '    code: IOErrorEnum',
+        '}',
+    ])
+    t.deepEqual(mod.exportFunction(func), ['/**', ' * @throws {GLib.Error}', ' */', 'export function load(): boolean'])
+
+    const typesMod = new GirModule(giXml, { ...config, buildType: 'types', noComments: true })
+    t.deepEqual(typesMod.exportErrorDomain(enum_), [
+        'export interface IoError extends GLib.Error {',
+        '    code: IOErrorEnum',
+        '}',
+    ])
+
+    const builderError: GirEnumeration = { $: { name: 'BuilderError', 'glib:error-domain': 'gtk-builder-error-quark' } }
+    const gtkXml = { repository: { namespace: [{ $: { name: 'Gtk', version: '3.0', 'c:symbol-prefixes': 'gtk' } }] } }
+    t.deepEqual(new GirModule(gtkXml, config).exportErrorDomain(builderError), [])
+
+    const nodeMod = new GirModule(emptyRepositoryXml, { ...config, environment: 'node' })
+    t.deepEqual(nodeMod.exportErrorDomain(enum_), [])
+})
+
 test('constant', (t) => {
     const var_ = {
         $: {
@@ -122,6 +205,191 @@ test('function', (t) => {
     t.deepEqual(mod.exportFunction(func3), [])
 })
 
+test('doc comments', (t) => {
+    const func: GirFunction = {
+        $: { name: 'my_func', version: '1.2', deprecated: '1', 'deprecated-version': '1.4' },
+        doc: [{ _: 'Calls #TestMyType with @arg1 or %NULL,\nsee test_my_other_func().', $: {} }],
+        'doc-deprecated': [{ _: 'Use test_my_other_func() instead', $: {} }],
+        parameters: [
+            {
+                parameter: [
+                    {
+                        $: { name: 'arg1' },
+                        doc: [{ _: 'a #TestMyType', $: {} }],
+                        type: [{ $: { name: 'MyType' } }],
+                    },
+                ],
+            },
+        ],
+        'return-value': [
+            {
+                $: { 'transfer-ownership': 'none' },
+                doc: [{ _: 'the name of `arg1`', $: {} }],
+                type: [{ $: { name: 'utf8' } }],
+            },
+        ],
+    }
+
+    const enum_: GirEnumeration = {
+        $: { name: 'MyEnum' },
+        doc: [{ _: 'Values for #TestMyType', $: {} }],
+        member: [
+            {
+                $: { name: 'member_1', value: '0', 'c:identifier': 'TEST_MY_ENUM_MEMBER_1' },
+                doc: [{ _: 'The first member, same as %TEST_MY_ENUM_MEMBER_1', $: {} }],
+            },
+        ],
+    }
+
+    const symTable = {
+        'Test.MyType': { $: { name: 'MyType', 'c:type': 'TestMyType' } },
+        'Test.my_other_func': { $: { name: 'my_other_func', 'c:identifier': 'test_my_other_func' } },
+        'Test.MyEnum': enum_,
+    }
+
+    const mod = new GirModule(emptyRepositoryXml, config)
+    mod.symTable = symTable as any
+
+    t.deepEqual(mod.exportFunction(func), [
+        '/**',
+        ' * Calls {@link MyType} with `arg1` or `null`,',
+        ' * see {@link my_other_func}.',
+        ' *',
+        ' * @param arg1 - a {@link MyType}',
+        ' * @returns the name of `arg1`',
+        ' * @deprecated since 1.4: Use {@link my_other_func} instead',
+        ' * @since 1.2',
+        ' */',
+        'export function my_func(arg1: MyType): string',
+    ])
+
+    t.deepEqual(mod.exportEnumeration(enum_), [
+        '/**',
+        ' * Values for {@link MyType}',
+        ' */',
+        'export enum MyEnum {',
+        '    /**',
+        '     * The first member, same as {@link MyEnum.MEMBER_1}',
+        '     */',
+        '    MEMBER_1,',
+        '}',
+    ])
+
+    const noCommentsMod = new GirModule(emptyRepositoryXml, { ...config, noComments: true })
+    noCommentsMod.symTable = symTable as any
+
+    t.deepEqual(noCommentsMod.exportFunction(func), ['export function my_func(arg1: MyType): string'])
+})
+
+test('doc text links', (t) => {
+    const symTable = {
+        'Test.Widget': {
+            $: { name: 'Widget', 'c:type': 'TestWidget' },
+            property: [{ $: { name: 'can-focus' } }],
+        },
+        'Test.widget_show': { $: { name: 'widget_show', 'c:identifier': 'test_widget_show' } },
+        'Test.VERSION': { $: { name: 'VERSION', 'c:type': 'TEST_VERSION' } },
+    }
+
+    const mod = new GirModule(emptyRepositoryXml, config)
+    mod.symTable = symTable as any
+
+    t.is(mod.transformGirDocText('Shows a #TestWidget'), 'Shows a {@link Widget}')
+    t.is(mod.transformGirDocText('See #TestWidget:can-focus'), 'See {@link Widget.can_focus}')
+    t.is(mod.transformGirDocText('Emits #TestWidget::clicked'), 'Emits {@link Widget}::clicked')
+    t.is(mod.transformGirDocText('Call test_widget_show() first'), 'Call {@link widget_show} first')
+    t.is(mod.transformGirDocText('Since %TEST_VERSION'), 'Since {@link VERSION}')
+    t.is(mod.transformGirDocText('Unknown #GtkButton or gtk_main()'), 'Unknown `GtkButton` or `gtk_main()`')
+    t.is(
+        mod.transformGirDocText('Keeps `#TestWidget` and |[test_widget_show ();]|'),
+        'Keeps `#TestWidget` and ```\ntest_widget_show ();\n```',
+    )
+    t.is(mod.transformGirDocText('Escapes */'), 'Escapes *\\/')
+})
+
+test('promisify', (t) => {
+    const cls: GirClass = {
+        _fullSymName: 'Test.File',
+        $: {
+            name: 'File',
+            'c:symbol-prefix': 'file',
+            'c:type': 'TestFile',
+            'glib:type-name': 'TestFile',
+            'glib:get-type': 'test_file_get_type',
+        },
+        method: [
+            {
+                _fullSymName: 'Test.File.load_contents_async',
+                $: { name: 'load_contents_async' },
+                'return-value': [{ $: { 'transfer-ownership': 'none' }, type: [{ $: { name: 'none' } }] }],
+                parameters: [
+                    {
+                        parameter: [
+                            {
+                                $: { name: 'cancellable', nullable: '1' },
+                                type: [{ $: { name: 'Cancellable' } }],
+                            },
+                            {
+                                $: { name: 'callback', nullable: '1', scope: 'async', closure: '2' },
+                                type: [{ $: { name: 'AsyncReadyCallback' } }],
+                            },
+                            {
+                                $: { name: 'user_data', nullable: '1' },
+                                type: [{ $: { name: 'gpointer' } }],
+                            },
+                        ],
+                    },
+                ],
+            },
+            {
+                _fullSymName: 'Test.File.load_contents_finish',
+                $: { name: 'load_contents_finish', throws: '1' },
+                'return-value': [{ $: { 'transfer-ownership': 'none' }, type: [{ $: { name: 'gboolean' } }] }],
+                parameters: [
+                    {
+                        parameter: [
+                            {
+                                $: { name: 'res' },
+                                type: [{ $: { name: 'AsyncResult' } }],
+                            },
+                            {
+                                $: { name: 'etag_out', direction: 'out' },
+                                type: [{ $: { name: 'utf8' } }],
+                            },
+                        ],
+                    },
+                ],
+            },
+        ],
+    }
+
+    const symTable = {
+        'Test.File': cls,
+        'Test.Cancellable': 1,
+        'Test.AsyncReadyCallback': 1,
+        'Test.AsyncResult': 1,
+    }
+
+    const mod = new GirModule(emptyRepositoryXml, { ...config, promisify: true })
+    mod.symTable = symTable as any
+
+    t.deepEqual(mod.exportInterface(cls), [
+        'export class File {',
+        '    /* Methods of Test.File */',
+        '    /**',
+        '     * @throws {GLib.Error}',
+        '     */',
+        '    load_contents_async(cancellable?: Cancellable | null): Promise<[returnType: boolean, etag_out: string]>',
+        '    load_contents_async(cancellable?: Cancellable | null, callback?: AsyncReadyCallback | null): void',
+        '    /**',
+        '     * @throws {GLib.Error}',
+        '     */',
+        '    load_contents_finish(res: AsyncResult): [returnType: boolean, etag_out: string]',
+        '    static name: string',
+        '}',
+    ])
+})
+
 test('callback', (t) => {
     const cbs: GirFunction[] = [
         {
@@ -165,10 +433,549 @@ test('callback', (t) => {
     mod.symTable = symTable as any
 
     t.deepEqual(mod.exportCallback(cbs[0]), [
-        'export interface activate {',
-        '    (action: SimpleAction, parameter: GLib.Variant): void',
+        'export type activate = (action: SimpleAction, parameter: GLib.Variant) => void',
+    ])
+})
+
+test('signals', (t) => {
+    const cls: GirClass = {
+        _fullSymName: 'Test.Settings',
+        $: {
+            name: 'Settings',
+            'c:symbol-prefix': 'settings',
+            'c:type': 'TestSettings',
+            'glib:type-name': 'TestSettings',
+            'glib:get-type': 'test_settings_get_type',
+        },
+        prerequisite: [{ $: { name: 'GObject.Object' } }],
+        property: [{ $: { name: 'delay-apply', writable: '0' }, type: [{ $: { name: 'gboolean' } }] }],
+        'glib:signal': [
+            {
+                $: { name: 'changed', detailed: '1' },
+                'return-value': [{ $: { 'transfer-ownership': 'none' }, type: [{ $: { name: 'none' } }] }],
+                parameters: [{ parameter: [{ $: { name: 'key' }, type: [{ $: { name: 'utf8' } }] }] }],
+            },
+            {
+                $: { name: 'writable-change-event', when: 'last' },
+                'return-value': [{ $: { 'transfer-ownership': 'none' }, type: [{ $: { name: 'gboolean' } }] }],
+                parameters: [{ parameter: [{ $: { name: 'key' }, type: [{ $: { name: 'guint' } }] }] }],
+            },
+        ],
+    }
+
+    const mod = new GirModule(emptyRepositoryXml, config)
+    mod.symTable = { 'Test.Settings': cls } as any
+
+    t.deepEqual(mod.exportInterface(cls), [
+        'export class Settings {',
+        '    /* Properties of Test.Settings */',
+        '    readonly delay_apply: boolean',
+        '    /* Signals of Test.Settings */',
+        '    connect(sigName: "changed", callback: (($obj: Settings, key: string) => void)): number',
+        '    connect_after(sigName: "changed", callback: (($obj: Settings, key: string) => void)): number',
+        '    emit(sigName: "changed", key: string): void',
+        '    connect(sigName: `changed::${string}`, callback: (($obj: Settings, key: string) => void)): number',
+        '    connect_after(sigName: `changed::${string}`, callback: (($obj: Settings, key: string) => void)): number',
+        '    emit(sigName: `changed::${string}`, key: string): void',
+        '    /**',
+        '     * @remarks The default handler runs after the handlers connected with `connect()` and before the handlers connected with `connect_after()`.',
+        '     * If the signal uses a boolean accumulator like `g_signal_accumulator_true_handled()`, returning `true` stops the emission and the remaining handlers are not invoked.',
+        '     */',
+        '    connect(sigName: "writable-change-event", callback: (($obj: Settings, key: number) => boolean)): number',
+        '    connect_after(sigName: "writable-change-event", callback: (($obj: Settings, key: number) => boolean)): number',
+        '    emit(sigName: "writable-change-event", key: number): boolean',
+        '    connect(sigName: `notify::${"delay-apply"}`, callback: (($obj: Settings, pspec: GObject.ParamSpec) => void)): number',
+        '    connect_after(sigName: `notify::${"delay-apply"}`, callback: (($obj: Settings, pspec: GObject.ParamSpec) => void)): number',
+        '    /* Generic signal methods */',
+        '    connect(sigName: string, callback: any): number',
+        '    connect_after(sigName: string, callback: any): number',
+        '    emit(sigName: string, ...args: any[]): void',
+        '    disconnect(id: number): void',
+        "    /* Type-only members for generic typing, they don't exist at runtime */",
+        '    readonly $signals: Settings.SignalSignatures',
+        '    readonly $props: Settings.Properties',
+        '    static $gtype: GObject.Type',
+        '    static name: string',
+        '}',
+        'export namespace Settings {',
+        '    export interface SignalSignatures {',
+        '        "changed": [key: string]',
+        '        "writable-change-event": [key: number]',
+        '    }',
+        '    export interface Properties {',
+        '        readonly delay_apply: boolean',
+        '    }',
         '}',
     ])
+
+    // Interfaces extend the maps of all their prerequisites
+    const editable: GirClass = {
+        _fullSymName: 'Test.Editable',
+        $: {
+            name: 'Editable',
+            'c:symbol-prefix': 'editable',
+            'c:type': 'TestEditable',
+            'glib:type-name': 'TestEditable',
+            'glib:get-type': 'test_editable_get_type',
+        },
+        prerequisite: [{ $: { name: 'Settings' } }, { $: { name: 'Test.Action' } }],
+        property: [{ $: { name: 'text' }, type: [{ $: { name: 'utf8' } }] }],
+    }
+    const action: GirClass = {
+        _fullSymName: 'Test.Action',
+        $: { ...editable.$, name: 'Action' },
+        prerequisite: [{ $: { name: 'Settings' } }],
+    }
+    mod.symTable = { 'Test.Settings': cls, 'Test.Action': action, 'Test.Editable': editable } as any
+    t.deepEqual(
+        mod.exportInterface(editable).filter((line) => line.startsWith('    export interface')),
+        [
+            '    export interface SignalSignatures extends Settings.SignalSignatures, Action.SignalSignatures {',
+            "    export interface Properties extends Omit<Settings.Properties, 'text'>, Omit<Action.Properties, 'text'> {",
+        ],
+    )
+})
+
+test('property aliases', (t) => {
+    const cls: GirClass = {
+        _fullSymName: 'Test.Label',
+        $: {
+            name: 'Label',
+            'c:symbol-prefix': 'label',
+            'c:type': 'TestLabel',
+            'glib:type-name': 'TestLabel',
+            'glib:get-type': 'test_label_get_type',
+        },
+        property: [
+            { $: { name: 'use-markup', writable: '1' }, type: [{ $: { name: 'gboolean' } }] },
+            { $: { name: 'label', writable: '1' }, type: [{ $: { name: 'utf8' } }] },
+        ],
+    }
+
+    const gjs = new GirModule(emptyRepositoryXml, { ...config, propertyAliases: 'deprecated' })
+    t.deepEqual(gjs.exportInterface(cls), [
+        'export class Label {',
+        '    /* Properties of Test.Label */',
+        '    use_markup: boolean',
+        '    /**',
+        '     * Alias of `use_markup`',
+        '     *',
+        '     * @deprecated Use `use_markup` instead',
+        '     */',
+        '    useMarkup: boolean',
+        '    label: string',
+        '    static name: string',
+        '}',
+    ])
+
+    const node = new GirModule(emptyRepositoryXml, { ...config, environment: 'node', propertyAliases: 'alias' })
+    t.deepEqual(node.exportInterface(cls), [
+        'export class Label {',
+        '    /* Properties of Test.Label */',
+        '    useMarkup: boolean',
+        '    /**',
+        '     * Alias of `useMarkup`',
+        '     *',
+        '     * @alias useMarkup',
+        '     */',
+        '    use_markup: boolean',
+        '    label: string',
+        '    static name: string',
+        '}',
+    ])
+})
+
+test('patches', (t) => {
+    const cls: GirClass = {
+        _fullSymName: 'Test.Label',
+        $: {
+            name: 'Label',
+            'c:symbol-prefix': 'label',
+            'c:type': 'TestLabel',
+            'glib:type-name': 'TestLabel',
+            'glib:get-type': 'test_label_get_type',
+        },
+        property: [
+            { _fullSymName: 'Test.Label.label', $: { name: 'label', writable: '1' }, type: [{ $: { name: 'utf8' } }] },
+            {
+                _fullSymName: 'Test.Label.xalign',
+                $: { name: 'xalign', writable: '1' },
+                type: [{ $: { name: 'gfloat' } }],
+            },
+        ],
+        method: [
+            {
+                _fullSymName: 'Test.Label.get_text',
+                $: { name: 'get_text' },
+                'return-value': [{ $: {}, type: [{ $: { name: 'utf8' } }] }],
+            },
+            {
+                _fullSymName: 'Test.Label.activate',
+                $: { name: 'activate' },
+                'return-value': [{ $: {}, type: [{ $: { name: 'gboolean' } }] }],
+            },
+            {
+                _fullSymName: 'Test.Label.get_layout',
+                $: { name: 'get_layout' },
+                'return-value': [{ $: {}, type: [{ $: { name: 'gpointer' } }] }],
+            },
+        ],
+    }
+
+    const mod = new GirModule(emptyRepositoryXml, config)
+    mod.patches = {
+        members: {
+            'Test.Label.label': { nullable: true },
+            'Test.Label.xalign': { remove: true },
+            'Test.Label.get_text': { nullable: true },
+            'Test.Label.activate': { comment: 'activate clashes with Test.Widget.activate', remove: true },
+            'Test.Label.get_layout': { comment: 'returns a PangoLayout', signature: 'get_layout(): object' },
+        },
+        add: { 'Test.Label': ['get_lines(): number'] },
+    }
+    t.deepEqual(mod.exportInterface(cls), [
+        'export class Label {',
+        '    /* Properties of Test.Label */',
+        '    label: string | null',
+        '    /* Methods of Test.Label */',
+        '    get_text(): string | null',
+        '    /* activate clashes with Test.Widget.activate */',
+        '    /* returns a PangoLayout */',
+        '    get_layout(): object',
+        '    /* Added by patches */',
+        '    get_lines(): number',
+        '    static name: string',
+        '}',
+    ])
+
+    const error = t.throws(() => new Generator({ ...config, patches: ['does-not-exist.json'] }))
+    t.true(error.message.startsWith("Can't load the patch file 'does-not-exist.json'"))
+})
+
+test.serial('patch files', async (t) => {
+    const configDir = fs.mkdtempSync(Path.join(os.tmpdir(), 'ts-for-gir-'))
+    fs.mkdirSync(Path.join(configDir, 'patches'))
+    fs.writeFileSync(
+        Path.join(configDir, 'patches', 'my-lib.json'),
+        JSON.stringify({ dependencies: { 'Test-1.0': ['Gtk-3.0'] } }),
+    )
+    fs.writeFileSync(
+        Path.join(configDir, '.ts-for-girrc.json'),
+        JSON.stringify({ patches: ['./patches/my-lib.json', { add: { 'Test.Widget': ['show(): void'] } }] }),
+    )
+    const configFilePath = Config.configFilePath
+
+    // The paths are relative to the config file, not to the working directory
+    const userConfig = await Config.load(
+        ({
+            ...Config.defaults,
+            configName: Path.relative(process.cwd(), Path.join(configDir, '.ts-for-girrc.json')),
+        } as unknown) as ConfigFlags,
+        ['*'],
+    )
+    t.deepEqual(userConfig.patches, [
+        Path.join(configDir, 'patches', 'my-lib.json'),
+        { add: { 'Test.Widget': ['show(): void'] } },
+    ])
+    t.notThrows(() => new Generator(Config.getGenerateConfig(userConfig)))
+
+    Config.configFilePath = configFilePath
+    fs.rmdirSync(configDir, { recursive: true })
+})
+
+test('metadata', (t) => {
+    const gir: ParsedGir = {
+        repository: {
+            namespace: [
+                {
+                    $: { name: 'Test', version: '1.0' },
+                    constant: [{ $: { name: 'MAJOR' }, type: [{ $: { name: 'gint' } }] }],
+                    function: [
+                        {
+                            $: { name: 'get_label' },
+                            'return-value': [{ $: {}, type: [{ $: { name: 'utf8' } }] }],
+                            parameters: [
+                                {
+                                    parameter: [
+                                        { $: { name: 'widget' }, type: [{ $: { name: 'gpointer' } }] },
+                                        { $: { name: 'user-data' }, type: [{ $: { name: 'gpointer' } }] },
+                                    ],
+                                },
+                            ],
+                        },
+                    ],
+                },
+            ],
+        },
+    }
+
+    const metadata = new GirMetadata('Test-1.0', false)
+    const rules = metadata.parse(
+        [
+            '// Comment',
+            'get_label nullable /* comment */',
+            '  .widget type="uint"',
+            '  .user_data type="unowned GLib.List<string>?"',
+            'MAJOR skip',
+        ].join('\n'),
+    )
+    t.deepEqual(rules[2], {
+        selectors: [{ pattern: 'get_label' }, { pattern: 'user_data' }],
+        args: { type: 'unowned GLib.List<string>?' },
+        line: 4,
+    })
+
+    metadata.apply(gir, rules)
+    const mod = new GirModule(gir, config)
+    const ns = gir.repository.namespace?.[0]
+    t.deepEqual(mod.exportFunction((ns?.function || [])[0]), [
+        'export function get_label(widget: number, user_data?: string[] | null): string | null',
+    ])
+    t.is(ns?.constant?.[0].$.introspectable, '0')
+})
+
+test('diagnostics', (t) => {
+    const func: GirFunction = {
+        $: { name: 'get_widget' },
+        'return-value': [{ $: {}, type: [{ $: { name: 'Gtk.Widget' } }] }],
+    }
+
+    const mod = new GirModule(
+        { repository: { namespace: [{ $: { name: 'Test', version: '1.0' }, function: [func] }] } },
+        config,
+    )
+    mod.girFile = '/usr/share/gir-1.0/Test-1.0.gir'
+    mod.loadTypes({})
+    mod.exportFunction(func)
+    mod.exportFunction(func)
+    t.deepEqual(mod.diagnostics.list, [
+        {
+            code: 'TS4G001',
+            name: 'unresolved-type',
+            message: "Could not find type 'Gtk.Widget' for 'Test.get_widget return value'",
+            environment: 'gjs',
+            module: 'Test-1.0',
+            symbol: 'Test.get_widget return value',
+            file: '/usr/share/gir-1.0/Test-1.0.gir',
+            type: 'Gtk.Widget',
+        },
+    ])
+    t.deepEqual(mod.diagnostics.getSummary(), ['Code     Name             gjs', 'TS4G001  unresolved-type    1'])
+    t.is(mod.diagnostics.getStrictFailures().length, 1)
+    t.is(mod.diagnostics.getStrictFailures(['Gtk.*']).length, 0)
+
+    // Variables without a type are generated as 'any' as well
+    const untyped: GirFunction = {
+        _fullSymName: 'Test.set_data',
+        $: { name: 'set_data' },
+        parameters: [{ parameter: [{ _fullSymName: 'Test.set_data.data', $: { name: 'data' } }] }],
+    }
+    t.deepEqual(mod.exportFunction(untyped), ['export function set_data(data: any): void'])
+    t.is(mod.diagnostics.list[1].name, 'untyped-variable')
+    t.is(mod.diagnostics.list[1].message, "The type 'none' of 'data' is generated as 'any'")
+    t.is(mod.diagnostics.getStrictFailures(['Gtk.*']).length, 1)
+
+    // Types which are mapped to 'any' on purpose are only reported
+    const mapped: GirFunction = {
+        $: { name: 'set_args' },
+        parameters: [{ parameter: [{ $: { name: 'args' }, type: [{ $: { name: 'va_list' } }] }] }],
+    }
+    t.deepEqual(mod.exportFunction(mapped), ['export function set_args(args: any): void'])
+    t.is(mod.diagnostics.list[2].name, 'any-type')
+    t.is(mod.diagnostics.getStrictFailures(['Gtk.*']).length, 1)
+})
+
+test('unknown over any', (t) => {
+    const func: GirFunction = {
+        $: { name: 'get_args' },
+        parameters: [{ parameter: [{ $: { name: 'args' }, type: [{ $: { name: 'va_list' } }] }] }],
+        'return-value': [{ $: {}, type: [{ $: { name: 'va_list' } }] }],
+    }
+    const cb: GirFunction = {
+        $: { name: 'ArgsFunc' },
+        parameters: [{ parameter: [{ $: { name: 'args' }, type: [{ $: { name: 'va_list' } }] }] }],
+        'return-value': [{ $: {}, type: [{ $: { name: 'none' } }] }],
+    }
+
+    const mod = new GirModule(emptyRepositoryXml, { ...config, unknownOverAny: true })
+    // Values the application passes to the API stay `any`
+    t.deepEqual(mod.exportFunction(func), ['export function get_args(args: any): unknown'])
+    t.deepEqual(mod.exportCallback(cb), ['export type ArgsFunc = (args: unknown) => void'])
+
+    // Also in nested positions, e.g. the values of hash tables and the members of tuples
+    const nested: GirFunction = {
+        $: { name: 'get_table' },
+        parameters: [
+            {
+                parameter: [
+                    { $: { name: 'data', direction: 'out' }, type: [{ $: { name: 'va_list' } }] },
+                    {
+                        $: { name: 'list' },
+                        type: [{ $: { name: 'GLib.List' }, type: [{ $: { name: 'va_list' } }] }],
+                    },
+                ],
+            },
+        ],
+        'return-value': [
+            {
+                $: {},
+                type: [{ $: { name: 'GLib.HashTable' }, type: [{ $: { name: 'utf8' } }, { $: { name: 'va_list' } }] }],
+            },
+        ],
+    }
+    t.deepEqual(mod.exportFunction(nested), [
+        'export function get_table(list: any[]): [returnType: { [key: string]: unknown }, data: unknown]',
+    ])
+})
+
+test('branded integers', (t) => {
+    const func: GirFunction = {
+        $: { name: 'get_id' },
+        parameters: [{ parameter: [{ $: { name: 'index' }, type: [{ $: { name: 'guint' } }] }] }],
+        'return-value': [{ $: {}, type: [{ $: { name: 'guint64' } }] }],
+    }
+
+    const mod = new GirModule(emptyRepositoryXml, { ...config, environment: 'node', brandedIntegers: true })
+    t.deepEqual(mod.exportFunction(func), ['export function getId(index: number): number'])
+
+    mod.transitiveDependencies = ['GLib-2.0', 'GObject-2.0']
+    t.deepEqual(mod.exportFunction(func), ['export function getId(index: GLib.guint): GLib.guint64'])
+
+    const types = mod.exportBrandedIntegerTypes()
+    t.true(types.includes("export type guint8 = number & { __brand?: 'guint8' }"))
+    t.true(types.includes("export type guint64 = (number | bigint) & { __brand?: 'guint64' }"))
+    t.true(types.includes(' * Integer from 0 to 255'))
+})
+
+test('containers', (t) => {
+    const func: GirFunction = {
+        $: { name: 'get_headers' },
+        parameters: [
+            {
+                parameter: [
+                    {
+                        $: { name: 'names' },
+                        array: [{ $: { 'c:type': 'gchar***' }, array: [{ type: [{ $: { name: 'utf8' } }] }] }],
+                    },
+                    {
+                        $: { name: 'values' },
+                        type: [
+                            {
+                                $: { name: 'GLib.List' },
+                                type: [
+                                    {
+                                        $: { name: 'GLib.HashTable' },
+                                        type: [{ $: { name: 'gint' } }, { $: { name: 'MyType' } }],
+                                    },
+                                ],
+                            },
+                        ],
+                    },
+                ],
+            },
+        ],
+        'return-value': [
+            {
+                $: { nullable: '1' },
+                type: [
+                    {
+                        $: { name: 'GLib.HashTable' },
+                        type: [{ $: { name: 'utf8' } }, { $: { name: 'GLib.SList' }, type: [{ $: { name: 'utf8' } }] }],
+                    },
+                ],
+            },
+        ],
+    }
+
+    const mod = new GirModule(emptyRepositoryXml, config)
+    mod.symTable = { 'Test.MyType': 1 } as any
+    t.deepEqual(mod.exportFunction(func), [
+        'export function get_headers(names: string[][], values: { [key: number]: MyType }[]): { [key: string]: string[] } | null',
+    ])
+
+    // The diagnostics of an element type refer to the container
+    const setItems: GirFunction = {
+        $: { name: 'set_items' },
+        parameters: [
+            {
+                parameter: [
+                    {
+                        _fullSymName: 'Test.set_items.items',
+                        $: { name: 'items' },
+                        type: [{ $: { name: 'GLib.List' }, type: [{ $: { name: 'Missing' } }] }],
+                    },
+                ],
+            },
+        ],
+    }
+    t.deepEqual(mod.exportFunction(setItems), ['export function set_items(items: any[]): void'])
+    t.is(mod.diagnostics.list[0].symbol, 'Test.set_items.items')
+})
+
+test('out parameters', (t) => {
+    const func: GirFunction = {
+        $: { name: 'get_iter' },
+        parameters: [
+            {
+                parameter: [
+                    {
+                        $: { name: 'iter', direction: 'out', 'caller-allocates': '1', nullable: '1' },
+                        type: [{ $: { name: 'TreeIter' } }],
+                    },
+                    {
+                        $: { name: 'count', direction: 'inout', 'allow-none': '1' },
+                        type: [{ $: { name: 'gint' } }],
+                    },
+                    {
+                        $: { name: 'path', direction: 'out', optional: '1' },
+                        type: [{ $: { name: 'utf8' } }],
+                    },
+                ],
+            },
+        ],
+        'return-value': [{ $: {}, type: [{ $: { name: 'gboolean' } }] }],
+    }
+
+    const mod = new GirModule(emptyRepositoryXml, config)
+    mod.symTable = { 'Test.TreeIter': 1 } as any
+    t.deepEqual(mod.exportFunction(func), [
+        'export function get_iter(count?: number | null): [returnType: boolean, iter: TreeIter, count: number | null, path: string | null]',
+    ])
+})
+
+test('labelled tuples', (t) => {
+    const func: GirFunction = {
+        $: { name: 'get_size' },
+        parameters: [
+            {
+                parameter: [
+                    { $: { name: 'return-type', direction: 'out' }, type: [{ $: { name: 'utf8' } }] },
+                    { $: { name: 'in', direction: 'out' }, type: [{ $: { name: 'gint' } }] },
+                ],
+            },
+        ],
+        'return-value': [{ $: {}, type: [{ $: { name: 'gboolean' } }] }],
+    }
+
+    const mod = new GirModule(emptyRepositoryXml, { ...config, environment: 'node' })
+    t.deepEqual(mod.exportFunction(func), [
+        'export function getSize(): [returnType: boolean, returnType_: string, in_: number]',
+    ])
+})
+
+test('transformations', (t) => {
+    const transformation = new Transformation('Test-1.0', {
+        ...config,
+        transformations: {
+            functionName: { gjs: 'lowerCamelCase' },
+            propertyName: {
+                gjs: (name, packageName) => `${packageName.split('-')[0].toLowerCase()}_${name.replace(/-/g, '_')}`,
+            },
+        },
+    })
+    t.is(transformation.transformFunctionName('get_label'), 'getLabel')
+    t.is(transformation.transformPropertyName('use-markup', false), 'test_use_markup')
+    t.is(transformation.transformParameterName('user-data', false), 'user_data')
 })
 
 test('interface', (t) => {
@@ -178,7 +985,7 @@ test('interface', (t) => {
         'GLib.VariantType': 1,
     }
 
-    const mod = new GirModule(emptyRepositoryXml, config)
+    const mod = new GirModule(emptyRepositoryXml, { ...config, noComments: true })
     t.is(mod.name, 'Test')
 
     mod.symTable = symTable as any
@@ -209,11 +1016,11 @@ test('interface', (t) => {
         '    vfunc_get_state(): GLib.Variant',
         '    vfunc_get_state_hint(): GLib.Variant | null',
         '    vfunc_get_state_type(): GLib.VariantType',
-        '    static name: string',
         '    /* Static methods and pseudo-constructors */',
         '    static name_is_valid(action_name: string): boolean',
-        '    static parse_detailed_name(detailed_name: string): [ /* returnType */ boolean, /* action_name */ string, /* target_value */ GLib.Variant ]',
+        '    static parse_detailed_name(detailed_name: string): [returnType: boolean, action_name: string, target_value: GLib.Variant]',
         '    static print_detailed_name(action_name: string, target_value?: GLib.Variant | null): string',
+        '    static name: string',
         '}',
     ])
 
@@ -233,7 +1040,7 @@ test('interface', (t) => {
         '    get_action_state_type(action_name: string): GLib.VariantType | null',
         '    has_action(action_name: string): boolean',
         '    list_actions(): string[]',
-        '    query_action(action_name: string): [ /* returnType */ boolean, /* enabled */ boolean, /* parameter_type */ GLib.VariantType | null, /* state_type */ GLib.VariantType | null, /* state_hint */ GLib.Variant | null, /* state */ GLib.Variant | null ]',
+        '    query_action(action_name: string): [returnType: boolean, enabled: boolean, parameter_type: GLib.VariantType | null, state_type: GLib.VariantType | null, state_hint: GLib.Variant | null, state: GLib.Variant | null]',
         '    /* Virtual methods of ActionGroup */',
         '    vfunc_action_added(action_name: string): void',
         '    vfunc_action_enabled_changed(action_name: string, enabled: boolean): void',
@@ -248,20 +1055,32 @@ test('interface', (t) => {
         '    vfunc_get_action_state_type(action_name: string): GLib.VariantType | null',
         '    vfunc_has_action(action_name: string): boolean',
         '    vfunc_list_actions(): string[]',
-        '    vfunc_query_action(action_name: string): [ /* returnType */ boolean, /* enabled */ boolean, /* parameter_type */ GLib.VariantType | null, /* state_type */ GLib.VariantType | null, /* state_hint */ GLib.Variant | null, /* state */ GLib.Variant | null ]',
+        '    vfunc_query_action(action_name: string): [returnType: boolean, enabled: boolean, parameter_type: GLib.VariantType | null, state_type: GLib.VariantType | null, state_hint: GLib.Variant | null, state: GLib.Variant | null]',
         '    /* Signals of ActionGroup */',
         '    connect(sigName: "action-added", callback: (($obj: ActionGroup, action_name: string) => void)): number',
         '    connect_after(sigName: "action-added", callback: (($obj: ActionGroup, action_name: string) => void)): number',
         '    emit(sigName: "action-added", action_name: string): void',
+        '    connect(sigName: `action-added::${string}`, callback: (($obj: ActionGroup, action_name: string) => void)): number',
+        '    connect_after(sigName: `action-added::${string}`, callback: (($obj: ActionGroup, action_name: string) => void)): number',
+        '    emit(sigName: `action-added::${string}`, action_name: string): void',
         '    connect(sigName: "action-enabled-changed", callback: (($obj: ActionGroup, action_name: string, enabled: boolean) => void)): number',
         '    connect_after(sigName: "action-enabled-changed", callback: (($obj: ActionGroup, action_name: string, enabled: boolean) => void)): number',
         '    emit(sigName: "action-enabled-changed", action_name: string, enabled: boolean): void',
+        '    connect(sigName: `action-enabled-changed::${string}`, callback: (($obj: ActionGroup, action_name: string, enabled: boolean) => void)): number',
+        '    connect_after(sigName: `action-enabled-changed::${string}`, callback: (($obj: ActionGroup, action_name: string, enabled: boolean) => void)): number',
+        '    emit(sigName: `action-enabled-changed::${string}`, action_name: string, enabled: boolean): void',
         '    connect(sigName: "action-removed", callback: (($obj: ActionGroup, action_name: string) => void)): number',
         '    connect_after(sigName: "action-removed", callback: (($obj: ActionGroup, action_name: string) => void)): number',
         '    emit(sigName: "action-removed", action_name: string): void',
+        '    connect(sigName: `action-removed::${string}`, callback: (($obj: ActionGroup, action_name: string) => void)): number',
+        '    connect_after(sigName: `action-removed::${string}`, callback: (($obj: ActionGroup, action_name: string) => void)): number',
+        '    emit(sigName: `action-removed::${string}`, action_name: string): void',
         '    connect(sigName: "action-state-changed", callback: (($obj: ActionGroup, action_name: string, value: GLib.Variant) => void)): number',
         '    connect_after(sigName: "action-state-changed", callback: (($obj: ActionGroup, action_name: string, value: GLib.Variant) => void)): number',
         '    emit(sigName: "action-state-changed", action_name: string, value: GLib.Variant): void',
+        '    connect(sigName: `action-state-changed::${string}`, callback: (($obj: ActionGroup, action_name: string, value: GLib.Variant) => void)): number',
+        '    connect_after(sigName: `action-state-changed::${string}`, callback: (($obj: ActionGroup, action_name: string, value: GLib.Variant) => void)): number',
+        '    emit(sigName: `action-state-changed::${string}`, action_name: string, value: GLib.Variant): void',
         '    static name: string',
         '}',
     ])
@@ -281,21 +1100,89 @@ test('constructors', (t) => {
     mod.symTable = symTable as any
 
     t.deepEqual(mod.exportInterface(TestData.interfaceDBusNodeInfo), [
+        '/**',
+        ' * Information about nodes in a remote object hierarchy.',
+        ' *',
+        ' * @since 2.26',
+        ' */',
         'export class DBusNodeInfo {',
         '    /* Fields of DBusNodeInfo */',
+        '    /**',
+        '     * The reference count or -1 if statically allocated.',
+        '     */',
         '    ref_count: number',
+        '    /**',
+        '     * The path of the node or `null` if omitted. Note that this may be a relative path. See the D-Bus specification for more details.',
+        '     */',
         '    path: string',
+        '    /**',
+        '     * A pointer to a `null`-terminated array of pointers to `GDBusInterfaceInfo` structures or `null` if there are no interfaces.',
+        '     */',
         '    interfaces: DBusInterfaceInfo[]',
+        '    /**',
+        '     * A pointer to a `null`-terminated array of pointers to `GDBusNodeInfo` structures or `null` if there are no nodes.',
+        '     */',
         '    nodes: DBusNodeInfo[]',
+        '    /**',
+        '     * A pointer to a `null`-terminated array of pointers to `GDBusAnnotationInfo` structures or `null` if there are no annotations.',
+        '     */',
         '    annotations: any[]',
         '    /* Methods of DBusNodeInfo */',
-        '    generate_xml(indent: number): /* string_builder */ GLib.String',
+        '    /**',
+        '     * Appends an XML representation of `info` (and its children) to `string_builder`.',
+        '     *',
+        '     * This function is typically used for generating introspection XML documents at run-time for',
+        '     * handling the `org.freedesktop.DBus.Introspectable.Introspect`  method.',
+        '     *',
+        '     * @param indent - Indentation level.',
+        '     * @since 2.26',
+        '     */',
+        '    generate_xml(indent: number): GLib.String',
+        '    /**',
+        '     * Looks up information about an interface.',
+        '     *',
+        '     * The cost of this function is O(n) in number of interfaces.',
+        '     *',
+        '     * @param name - A D-Bus interface name.',
+        '     * @returns A `GDBusInterfaceInfo` or `null` if not found. Do not free, it is owned by `info`.',
+        '     * @since 2.26',
+        '     */',
         '    lookup_interface(name: string): DBusInterfaceInfo',
+        '    /**',
+        '     * If `info` is statically allocated does nothing. Otherwise increases',
+        '     * the reference count.',
+        '     *',
+        '     * @returns The same `info`.',
+        '     * @since 2.26',
+        '     */',
         '    ref(): DBusNodeInfo',
+        '    /**',
+        '     * If `info` is statically allocated, does nothing. Otherwise decreases',
+        '     * the reference count of `info`. When its reference count drops to 0,',
+        '     * the memory used is freed.',
+        '     *',
+        '     * @since 2.26',
+        '     */',
         '    unref(): void',
-        '    static name: string',
         '    /* Static methods and pseudo-constructors */',
+        '    /**',
+        '     * Parses `xml_data` and returns a `GDBusNodeInfo` representing the data.',
+        '     *',
+        '     * The introspection XML must contain exactly one top-level',
+        '     * <node> element.',
+        '     *',
+        '     * Note that this routine is using a',
+        '     * [GMarkup][glib-Simple-XML-Subset-Parser.description]-based',
+        '     * parser that only accepts a subset of valid XML documents.',
+        '     *',
+        '     * @param xml_data - Valid D-Bus introspection XML.',
+        '     * @returns A `GDBusNodeInfo` structure or `null` if `error` is set. Free',
+        '     * with `g_dbus_node_info_unref()`.',
+        '     * @throws {GLib.Error}',
+        '     * @since 2.26',
+        '     */',
         '    static new_for_xml(xml_data: string): DBusNodeInfo',
+        '    static name: string',
         '}',
     ])
 })
@@ -318,7 +1205,7 @@ test('class', (t) => {
         'Test.ParamSpec': 1,
     }
 
-    const mod = new GirModule(emptyRepositoryXml, config)
+    const mod = new GirModule(emptyRepositoryXml, { ...config, noComments: true })
     t.is(mod.name, 'Test')
 
     mod.symTable = symTable as any
@@ -387,16 +1274,386 @@ test('class', (t) => {
         '    connect(sigName: "notify", callback: (($obj: ApplicationCommandLine, pspec: ParamSpec) => void)): number',
         '    connect_after(sigName: "notify", callback: (($obj: ApplicationCommandLine, pspec: ParamSpec) => void)): number',
         '    emit(sigName: "notify", pspec: ParamSpec): void',
-        '    connect(sigName: "notify::is-remote", callback: (($obj: ApplicationCommandLine, pspec: GObject.ParamSpec) => void)): number',
-        '    connect_after(sigName: "notify::is-remote", callback: (($obj: ApplicationCommandLine, pspec: GObject.ParamSpec) => void)): number',
+        '    connect(sigName: `notify::${"is-remote"}`, callback: (($obj: ApplicationCommandLine, pspec: GObject.ParamSpec) => void)): number',
+        '    connect_after(sigName: `notify::${"is-remote"}`, callback: (($obj: ApplicationCommandLine, pspec: GObject.ParamSpec) => void)): number',
+        '    /* Generic signal methods */',
         '    connect(sigName: string, callback: any): number',
         '    connect_after(sigName: string, callback: any): number',
         '    emit(sigName: string, ...args: any[]): void',
         '    disconnect(id: number): void',
-        '    static name: string',
-        '    constructor (config?: ApplicationCommandLine_ConstructProps)',
-        '    _init (config?: ApplicationCommandLine_ConstructProps): void',
+        "    /* Type-only members for generic typing, they don't exist at runtime */",
+        '    readonly $signals: ApplicationCommandLine.SignalSignatures',
+        '    readonly $props: ApplicationCommandLine.Properties',
+        '    constructor(config?: ApplicationCommandLine_ConstructProps)',
+        '    _init(config?: ApplicationCommandLine_ConstructProps): void',
         '    static $gtype: GObject.Type',
+        '    static name: string',
+        '}',
+        'export namespace ApplicationCommandLine {',
+        '    export interface SignalSignatures extends GObject.Object.SignalSignatures {',
+        '    }',
+        "    export interface Properties extends Omit<GObject.Object.Properties, 'is_remote'> {",
+        '        readonly is_remote: boolean',
+        '    }',
         '}',
     ])
 })
+
+test.serial('gir cache', async (t) => {
+    const girDir = fs.mkdtempSync(Path.join(os.tmpdir(), 'ts-for-gir-'))
+    const cacheDir = GirCache.cacheDir
+    GirCache.cacheDir = Path.join(girDir, 'cache')
+    const girPath = Path.join(girDir, 'Test-1.0.gir')
+    const contents = '<repository version="1.2"><namespace name="Test" version="1.0"/></repository>'
+    fs.writeFileSync(girPath, contents)
+
+    // xml2js merges <constructor> elements with the inherited Object.prototype.constructor
+    const parsedGir = ({
+        repository: {
+            namespace: [{ $: { name: 'Test', version: '1.0' }, constructor: [Object, { $: { name: 'new' } }] }],
+        },
+    } as unknown) as ParsedGir
+    const girCache = new GirCache(false)
+    t.is(await girCache.load(girPath, contents), null)
+    await girCache.save(girPath, contents, parsedGir)
+    t.deepEqual((await girCache.load(girPath, contents)) as unknown, {
+        repository: { namespace: [{ $: { name: 'Test', version: '1.0' }, constructor: [{ $: { name: 'new' } }] }] },
+    })
+
+    t.is(await girCache.load(girPath, contents.replace('1.0', '2.0')), null)
+
+    const cachePath = Path.join(GirCache.cacheDir, fs.readdirSync(GirCache.cacheDir)[0])
+    const entry = JSON.parse(fs.readFileSync(cachePath, 'utf8'))
+    fs.writeFileSync(cachePath, JSON.stringify({ ...entry, version: '0.0.0' }))
+    t.is(await girCache.load(girPath, contents), null)
+
+    await girCache.save(girPath, contents, parsedGir)
+    const mtime = new Date(Date.now() + 60000)
+    fs.utimesSync(girPath, mtime, mtime)
+    t.is(await girCache.load(girPath, contents), null)
+
+    await girCache.save(girPath, contents, parsedGir)
+    t.not(await girCache.load(girPath, contents), null)
+    await GirCache.clear()
+    t.false(fs.existsSync(GirCache.cacheDir))
+    t.is(await girCache.load(girPath, contents), null)
+
+    GirCache.cacheDir = cacheDir
+    fs.rmdirSync(girDir, { recursive: true })
+})
+
+test('manifest', (t) => {
+    const outdir = fs.mkdtempSync(Path.join(os.tmpdir(), 'ts-for-gir-'))
+    const manifestConfig: GenerateConfig = { ...config, outdir }
+    const mod = new GirModule(emptyRepositoryXml, manifestConfig)
+    mod.hash = 'hash'
+    const outputDir = Transformation.getOutputDir(manifestConfig, outdir, mod.packageName)
+    fs.mkdirSync(outputDir, { recursive: true })
+    for (const outputFile of ['Test-1.0.d.ts', 'Test-1.0.js']) fs.writeFileSync(Path.join(outputDir, outputFile), '')
+
+    const generator = new Generator(manifestConfig)
+    const manifest = JSON.parse(JSON.stringify({ modules: { 'Test-1.0': generator.getManifestModule(mod, [mod]) } }))
+    const isUnchanged = (generator: Generator) =>
+        generator.isModuleUnchanged(manifest, generator.getManifestModule(mod, [mod]), mod.packageName)
+
+    t.true(isUnchanged(generator))
+    t.false(isUnchanged(new Generator({ ...manifestConfig, force: true })))
+    t.false(isUnchanged(new Generator({ ...manifestConfig, noComments: true })))
+    t.false(
+        isUnchanged(new Generator({ ...manifestConfig, patches: [{ members: { 'Test.load': { remove: true } } }] })),
+    )
+
+    mod.hash = 'changed'
+    t.false(isUnchanged(generator))
+    mod.hash = 'hash'
+
+    fs.unlinkSync(Path.join(outputDir, 'Test-1.0.js'))
+    t.false(isUnchanged(generator))
+
+    fs.rmdirSync(outdir, { recursive: true })
+})
+
+test('watch targets', (t) => {
+    const girDir = fs.mkdtempSync(Path.join(os.tmpdir(), 'ts-for-gir-'))
+    fs.mkdirSync(Path.join(girDir, 'sub'))
+    const userConfig = {
+        environments: ['gjs'],
+        girDirectories: [girDir],
+        metadataDirectories: ['/does/not/exist'],
+        patches: [Path.join(girDir, 'patches.json'), { members: {} }],
+    } as UserConfig
+
+    const targets = Watch.getWatchTargets(userConfig)
+    t.deepEqual(
+        targets.filter((target) => target.change !== 'templates'),
+        [
+            { dir: girDir, change: 'gir', extname: '.gir' },
+            { dir: Path.join(girDir, 'sub'), change: 'gir', extname: '.gir' },
+            { dir: process.cwd(), change: 'config', filename: '.ts-for-girrc.js' },
+            { dir: girDir, change: 'patches', filename: 'patches.json' },
+        ],
+    )
+
+    fs.rmdirSync(girDir, { recursive: true })
+})
+
+test('debounce', async (t) => {
+    const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+    let calls = 0
+    let finish: () => void = () => undefined
+    const schedule = Utils.debounce(() => {
+        calls++
+        return new Promise<void>((resolve) => (finish = resolve))
+    }, 10)
+
+    schedule()
+    schedule()
+    await wait(5)
+    schedule()
+    t.is(calls, 0)
+    await wait(30)
+    t.is(calls, 1)
+
+    // Not called again while the callback is running
+    schedule()
+    await wait(30)
+    t.is(calls, 1)
+    finish()
+    await wait(30)
+    t.is(calls, 2)
+    finish()
+})
+
+test('version conflicts', async (t) => {
+    const girDir = fs.mkdtempSync(Path.join(os.tmpdir(), 'ts-for-gir-'))
+    for (const [name, version] of [
+        ['Foo', '1.0'],
+        ['Foo', '2.0'],
+        ['Bar', '1.0'],
+    ]) {
+        fs.writeFileSync(
+            Path.join(girDir, `${name}-${version}.gir`),
+            `<repository version="1.2"><namespace name="${name}" version="${version}"/></repository>`,
+        )
+    }
+    const loaderConfig: GenerateConfig = { ...config, girDirectories: [girDir] }
+    const getKept = async (versions = {}, ignoreConflicts = false) => {
+        const { keep } = await new ModuleLoader(loaderConfig).getModulesResolved(
+            ['*'],
+            [],
+            ignoreConflicts,
+            versions,
+            true,
+        )
+        return keep.map((girModuleResolvedBy) => girModuleResolvedBy.packageName).sort()
+    }
+
+    t.deepEqual(await getKept({ Foo: '2.0' }), ['Bar-1.0', 'Foo-2.0'])
+    t.deepEqual(await getKept({}, true), ['Bar-1.0', 'Foo-1.0', 'Foo-2.0'])
+    const error = await t.throwsAsync(getKept())
+    t.true(error.message.includes('- Foo: Foo-1.0, Foo-2.0'))
+
+    const userConfig = await Config.load(
+        ({ ...Config.defaults, girDirectories: [girDir], preferVersion: ['Foo=1.0'] } as unknown) as ConfigFlags,
+        ['*'],
+    )
+    t.deepEqual(userConfig.versions, { Foo: '1.0' })
+    t.deepEqual(await getKept(userConfig.versions), ['Bar-1.0', 'Foo-1.0'])
+
+    const moduleLoader = new ModuleLoader(loaderConfig)
+    const { grouped } = await moduleLoader.getModules(['*'])
+    t.is(moduleLoader.findPreferredVersion(grouped.foo, { foo: '2.0' }), 'Foo-2.0')
+    t.is(moduleLoader.findPreferredVersion(grouped.foo, { Foo: '3.0' }), null)
+    t.is(moduleLoader.findPreferredVersion(grouped.foo, { Bar: '1.0' }), null)
+
+    fs.rmdirSync(girDir, { recursive: true })
+})
+
+test('es modules', async (t) => {
+    const outdir = fs.mkdtempSync(Path.join(os.tmpdir(), 'ts-for-gir-'))
+    const esmConfig: GenerateConfig = { ...config, outdir, buildType: 'types', moduleType: 'esm' }
+    const mod = new GirModule(
+        {
+            repository: {
+                namespace: [
+                    {
+                        $: { name: 'Test', version: '1.0' },
+                        function: [
+                            { $: { name: 'get_count' }, 'return-value': [{ $: {}, type: [{ $: { name: 'gint' } }] }] },
+                        ],
+                    },
+                ],
+            },
+        },
+        esmConfig,
+    )
+    new Generator(esmConfig).start([mod])
+    // The module is written to a stream
+    await new Promise((resolve) => setTimeout(resolve, 250))
+
+    const outputDir = Transformation.getOutputDir(esmConfig, outdir)
+    const readLines = (filename: string) => fs.readFileSync(Path.join(outputDir, filename), 'utf8').split('\n')
+    t.true(
+        readLines('Test-1.0.d.ts')
+            .join('\n')
+            .endsWith("declare module 'gi://Test?version=1.0' {\n    export default Test\n}"),
+    )
+    const giLines = readLines('gi.d.ts')
+    t.true(giLines.includes('/// <reference path="Test-1.0.d.ts" />'))
+    t.true(giLines.join('\n').includes("declare module 'gi://Test' {\n    export default Test\n}"))
+    t.true(giLines.includes("declare module 'resource:///*'"))
+    t.false(fs.existsSync(Path.join(outputDir, 'index.d.ts')))
+
+    const mainPath = Path.join(outputDir, 'main.ts')
+    fs.writeFileSync(
+        mainPath,
+        [
+            "import Test from 'gi://Test?version=1.0'",
+            "import TestAlias from 'gi://Test'",
+            "import * as Widget from 'resource:///org/example/widget.js'",
+            'const count: number = Test.get_count() + TestAlias.get_count()',
+            'print(count, Widget)',
+        ].join('\n'),
+    )
+    const program = ts.createProgram([Path.join(outputDir, 'gi.d.ts'), mainPath], {
+        noEmit: true,
+        strict: true,
+        target: ts.ScriptTarget.ES2020,
+        module: ts.ModuleKind.ES2020,
+        types: [],
+    })
+    const diagnostics = ts
+        .getPreEmitDiagnostics(program)
+        .map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'))
+    t.deepEqual(diagnostics, [])
+
+    fs.rmdirSync(outdir, { recursive: true })
+})
+
+test('packages', (t) => {
+    const outdir = fs.mkdtempSync(Path.join(os.tmpdir(), 'ts-for-gir-'))
+    const packageConfig: GenerateConfig = { ...config, outdir, package: true, tsconfig: true }
+    const readJson = (...paths: string[]) => JSON.parse(fs.readFileSync(Path.join(outdir, ...paths), 'utf8'))
+    const [glib, gobject, gio] = [
+        ['GLib', '2.0'],
+        ['GObject', '2.0'],
+        ['Gio', '2.0'],
+    ].map(([name, version]) => new GirModule({ repository: { namespace: [{ $: { name, version } }] } }, packageConfig))
+    const mod = new GirModule(
+        {
+            repository: {
+                package: [{ $: { name: 'test-1.0' } }],
+                namespace: [{ $: { name: 'Test', version: '1.0', 'shared-library': 'libtest.so' } }],
+            },
+        },
+        packageConfig,
+    )
+    mod.transitiveDependencies = ['GLib-2.0']
+
+    // Also the dependencies which are only added when the module is exported
+    const generator = new Generator({ ...packageConfig, patches: [{ dependencies: { 'Test-1.0': ['Gio-2.0'] } }] })
+    generator.exportPackage(mod, [glib, gobject, gio, mod])
+    generator.exportGjsPackage()
+    generator.exportTsConfig()
+
+    t.deepEqual(readJson('@girs', 'test-1.0', 'package.json'), {
+        name: '@girs/test-1.0',
+        version: `1.0.0-${Config.appVersion}`,
+        description: 'GJS TypeScript type definitions for Test-1.0',
+        main: './Test-1.0.js',
+        types: './Test-1.0.d.ts',
+        exports: {
+            '.': { types: './Test-1.0.d.ts', default: './Test-1.0.js' },
+            './package.json': './package.json',
+        },
+        dependencies: {
+            '@girs/gjs': Config.appVersion,
+            '@girs/glib-2.0': `2.0.0-${Config.appVersion}`,
+            '@girs/gobject-2.0': `2.0.0-${Config.appVersion}`,
+            '@girs/gio-2.0': `2.0.0-${Config.appVersion}`,
+        },
+        keywords: ['Gir', 'TypeScript', 'types', 'GObject-Introspection', 'gjs', 'Test-1.0'],
+    })
+    t.is(readJson('@girs', 'gjs', 'package.json').types, './Gjs.d.ts')
+
+    const readme = fs.readFileSync(Path.join(outdir, '@girs', 'test-1.0', 'README.md'), 'utf8').split('\n')
+    for (const line of [
+        '# @girs/test-1.0',
+        '| Namespace | `Test` |',
+        '| Shared library | `libtest.so` |',
+        '| pkg-config | `test-1.0` |',
+        'npm install @girs/test-1.0',
+        'Installs also the packages of its dependencies: `@girs/gjs`, `@girs/glib-2.0`, `@girs/gobject-2.0`, `@girs/gio-2.0`.',
+        "import * as Test from '@girs/test-1.0'",
+    ]) {
+        t.true(readme.includes(line), line)
+    }
+
+    const tsConfig = readJson('Gjs', 'tsconfig.ts-for-gir.json')
+    t.deepEqual(tsConfig.compilerOptions.paths, { '@girs/*': ['../@girs/*'] })
+    t.deepEqual(tsConfig.compilerOptions.typeRoots, ['..'])
+    t.deepEqual(tsConfig.files, ['./index.d.ts'])
+
+    fs.rmdirSync(outdir, { recursive: true })
+})
+
+test('inline callbacks', (t) => {
+    const activate: GirFunction = {
+        $: { name: 'activate' },
+        'return-value': [{ $: {}, type: [{ $: { name: 'gboolean' } }] }],
+        parameters: [{ parameter: [{ $: { name: 'widget' }, type: [{ $: { name: 'utf8' } }] }] }],
+    }
+    const func: GirFunction = { $: { name: 'func' }, 'return-value': [{ $: {}, type: [{ $: { name: 'none' } }] }] }
+    const foreach: GirFunction = {
+        $: { name: 'foreach' },
+        parameters: [{ parameter: [{ $: { name: 'func' }, callback: [func] }] }],
+        'return-value': [{ $: {}, type: [{ $: { name: 'none' } }] }],
+    }
+    const mod = new GirModule(
+        {
+            repository: {
+                namespace: [
+                    {
+                        $: { name: 'Test', version: '1.0' },
+                        record: [
+                            {
+                                $: {
+                                    name: 'WidgetClass',
+                                    'c:symbol-prefix': 'widget_class',
+                                    'c:type': 'TestWidgetClass',
+                                    'glib:type-name': 'TestWidgetClass',
+                                    'glib:get-type': 'test_widget_class_get_type',
+                                },
+                                field: [{ $: { name: 'activate' }, callback: [activate] }],
+                            },
+                        ],
+                        function: [foreach],
+                    },
+                ],
+            },
+        },
+        { ...config, noComments: true },
+    )
+    mod.loadTypes({})
+
+    // Other modules only reference the aliases their module has exported
+    const other = new GirModule(
+        { repository: { namespace: [{ $: { name: 'Other', version: '1.0' } }] } },
+        { ...config, noComments: true },
+    )
+    const otherForeach: GirFunction = { ...foreach, $: { name: 'other_foreach' } }
+    t.deepEqual(other.exportFunction(otherForeach), ['export function other_foreach(func: () => void): void'])
+
+    let text = ''
+    mod.export(({ write: (chunk: string) => (text += chunk) } as unknown) as NodeJS.WritableStream, null)
+    const lines = text.split('\n')
+    for (const line of [
+        'export function foreach(func: ForeachFunc): void',
+        '    activate: WidgetClassActivateFunc',
+        'export type ForeachFunc = () => void',
+        'export type WidgetClassActivateFunc = (widget: string) => boolean',
+    ]) {
+        t.true(lines.includes(line), line)
+    }
+    t.deepEqual(other.exportFunction(otherForeach), ['export function other_foreach(func: Test.ForeachFunc): void'])
+})